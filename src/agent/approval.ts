@@ -0,0 +1,104 @@
+import { type RiskLevel } from "../tools/index.ts";
+import { type Agent, type PromptTrace } from "./index.ts";
+import { type FunctionCall } from "./response-parser.ts";
+
+export type ApprovalAction = "allow" | "deny" | "ask";
+
+/**
+ * Matches tool calls by glob patterns, where `*` matches any text and `?` a single character
+ * A pattern that is not given matches anything.
+ */
+export interface ApprovalRule {
+  action: ApprovalAction;
+  /** The tool identifier, e.g. `bash-executor-tool` */
+  tool?: string;
+  /** The function name, e.g. `execute` */
+  function?: string;
+  /** The arguments joined by spaces, e.g. `git status*` */
+  args?: string;
+}
+
+/**
+ * The approval policy of an agent
+ * When several rules match a call the most restrictive wins - deny over ask over allow.
+ * Calls that no rule matches are decided by the risk of the function.
+ */
+export interface ApprovalPolicy {
+  rules?: ApprovalRule[];
+  defaults?: Partial<Record<RiskLevel, ApprovalAction>>;
+}
+
+export const DEFAULT_RISK_ACTIONS: Record<RiskLevel, ApprovalAction> = {
+  low: "allow",
+  medium: "allow",
+  high: "ask",
+};
+
+/**
+ * A tool call to decide on
+ */
+export interface ToolCallDescription {
+  tool: string;
+  function: string;
+  args: unknown[];
+  risk: RiskLevel;
+}
+
+/**
+ * A tool call that the user is asked to approve
+ */
+export interface ToolApprovalRequest {
+  agent: Agent;
+  call: FunctionCall;
+  /** The evaluated arguments of the call */
+  args: unknown[];
+  risk: RiskLevel;
+  trace: PromptTrace;
+}
+
+/**
+ * Asks the user to approve a tool call, rejecting only when the work is cancelled
+ */
+export type ToolApprovalHandler = (request: ToolApprovalRequest, signal?: AbortSignal) => Promise<ApprovalAnswer>;
+
+/**
+ * The user's answer to a tool call that needs approval
+ */
+export type ApprovalAnswer =
+  | { approved: true; always: boolean }
+  | { approved: false; reason: string };
+
+const RESTRICTIVENESS: ApprovalAction[] = ["allow", "ask", "deny"];
+
+// The tools that run their arguments with a shell
+const SHELL_TOOLS = ["bash-executor-tool"];
+// Separators, pipes, redirections and substitutions - they make a shell do more than the command a rule allows
+const SHELL_METACHARACTERS = /[;&|<>()`\n]/;
+
+/**
+ * Decide what to do with a tool call
+ * A rule that allows shell commands by their arguments does not allow chained or redirected commands, such as `git status; rm -rf ~` or `git status > ~/.bashrc`, they are asked about.
+ */
+export function evaluatePolicy(policy: ApprovalPolicy | undefined, call: ToolCallDescription): ApprovalAction {
+  const args = call.args.map((arg) => typeof arg === "string" ? arg : JSON.stringify(arg)).join(" ");
+
+  const matching = (policy?.rules ?? []).filter((rule) =>
+    matchesGlob(rule.tool, call.tool) && matchesGlob(rule.function, call.function) && matchesGlob(rule.args, args)
+  );
+  if (matching.length > 0) {
+    const action = matching.map((rule) => rule.action).reduce((a, b) => RESTRICTIVENESS.indexOf(a) >= RESTRICTIVENESS.indexOf(b) ? a : b);
+    const chained = SHELL_TOOLS.includes(call.tool) && SHELL_METACHARACTERS.test(args) && matching.some((rule) => rule.args !== undefined);
+    return action === "allow" && chained ? "ask" : action;
+  }
+
+  return policy?.defaults?.[call.risk] ?? DEFAULT_RISK_ACTIONS[call.risk];
+}
+
+function matchesGlob(pattern: string | undefined, value: string): boolean {
+  if (pattern === undefined) {
+    return true;
+  }
+
+  const regex = pattern.replace(/[.+^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*").replace(/\?/g, ".");
+  return new RegExp(`^${regex}$`, "s").test(value);
+}
@@ -0,0 +1,66 @@
+// Tests for blackboard.ts
+import { assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { Blackboard, VersionConflictError } from "./blackboard.ts";
+
+Deno.test("Blackboard - every change raises the version and a put with an outdated version is refused", () => {
+  const board = new Blackboard();
+  assertEquals(board.put("plan", "write the tests", "Manager", 0).version, 1);
+  assertEquals(board.append("plan", "run the tests", "Typer").version, 2);
+
+  let conflict: unknown;
+  try {
+    board.put("plan", "ship it", "Manager", 1);
+  } catch (e) {
+    conflict = e;
+  }
+
+  assertEquals(conflict instanceof VersionConflictError && [conflict.expected, conflict.actual], [1, 2]);
+  assertEquals(board.get("plan")?.value, "write the tests\nrun the tests");
+  assertEquals(board.get("plan")?.author, "Typer");
+});
+
+Deno.test("Blackboard - watchers are found by the prefixes they watch", () => {
+  const board = new Blackboard();
+  board.watch("Typer", "plan/");
+  board.watch("Reviewer", "");
+  board.watch("Manager", "notes/");
+
+  assertEquals(board.watchers("plan/tests"), ["Typer", "Reviewer"]);
+
+  board.unwatch("Reviewer");
+  board.unwatch("Typer", "plan/");
+  assertEquals(board.watchers("plan/tests"), []);
+  assertEquals(board.watchers("notes/Typer"), ["Manager"]);
+});
+
+Deno.test("Blackboard - the entries are saved to the file and loaded from it", async () => {
+  const file = await Deno.makeTempFile({ suffix: ".json" });
+  await Deno.remove(file);
+  const board = new Blackboard();
+  await board.load(file);
+  board.put("plan", "write the tests", "Manager");
+  board.put("notes/Typer", "done", "Typer");
+  board.delete("notes/Typer");
+  await board.flush();
+
+  const loaded = new Blackboard();
+  await loaded.load(file);
+  assertEquals(loaded.list().map((entry) => [entry.key, entry.value, entry.version, entry.updatedAt instanceof Date]), [
+    ["plan", "write the tests", 1, true],
+  ]);
+  await Deno.remove(file);
+});
+
+Deno.test("Blackboard - a file that can't be loaded is not overwritten", async () => {
+  const file = await Deno.makeTempFile({ suffix: ".json" });
+  await Deno.writeTextFile(file, '[{"key": "plan", "value": "write the');
+  const board = new Blackboard();
+
+  const error = await board.load(file).catch((e) => e);
+  board.put("notes", "started", "Manager");
+  await board.flush();
+
+  assertEquals(error instanceof SyntaxError, true);
+  assertEquals(await Deno.readTextFile(file), '[{"key": "plan", "value": "write the');
+  await Deno.remove(file);
+});
@@ -0,0 +1,157 @@
+import { debugPrefix } from "../lib/cli.ts";
+import { SnapshotFile } from "../lib/snapshot-file.ts";
+import { EventBus } from "./events.ts";
+import { type PromptTrace } from "./index.ts";
+
+/**
+ * A versioned entry on the blackboard
+ */
+export interface BoardEntry {
+  key: string;
+  value: string;
+  /** Starts at 1 and goes up with every change */
+  version: number;
+  /** The name of the agent that made the last change, or "user" for changes made with /board */
+  author: string;
+  updatedAt: Date;
+}
+
+export type BlackboardEvents = {
+  /** An entry was created or changed, the trace is given when an agent changed it while handling a request */
+  "entry:changed": { entry: BoardEntry; trace?: PromptTrace };
+};
+
+/**
+ * Thrown when a put expected a different version of the entry than the one on the board
+ */
+export class VersionConflictError extends Error {
+  constructor(public readonly key: string, public readonly expected: number, public readonly actual: number) {
+    super(actual === 0 ? `"${key}" does not exist yet, expected version ${expected}` : `"${key}" is at version ${actual}, expected version ${expected}`);
+    this.name = "VersionConflictError";
+  }
+}
+
+/**
+ * A key-value store shared by all agents of a session, so that plans and documents don't have to be restated in every message
+ * The entries are saved to a file after every change, watches only last as long as the session.
+ */
+export class Blackboard {
+  public readonly events = new EventBus<BlackboardEvents>();
+  private entries: Map<string, BoardEntry> = new Map();
+  private watches: Map<string, Set<string>> = new Map();
+  private file: SnapshotFile<BoardEntry[]> | undefined;
+
+  /**
+   * Load the entries of a session from a file, which is then kept up to date - a missing file starts an empty board
+   * @throws When the file can't be read, it is then left as it is
+   */
+  public async load(path: string): Promise<void> {
+    const file = new SnapshotFile<BoardEntry[]>(path, "Blackboard");
+    const entries = await file.read() ?? [];
+    this.entries = new Map(entries.map((entry) => [entry.key, { ...entry, updatedAt: new Date(entry.updatedAt) }]));
+    this.file = file;
+    debugPrefix("Blackboard", `Loaded ${this.entries.size} entries from ${path}`);
+  }
+
+  public get(key: string): BoardEntry | undefined {
+    const entry = this.entries.get(key);
+    return entry && { ...entry };
+  }
+
+  /**
+   * The entries whose keys start with the prefix, sorted by key
+   */
+  public list(prefix = ""): BoardEntry[] {
+    return Array.from(this.entries.values())
+      .filter((entry) => entry.key.startsWith(prefix))
+      .sort((a, b) => a.key.localeCompare(b.key))
+      .map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Create or replace an entry
+   * @param expectedVersion The version the author last read, 0 when the entry should not exist yet - the put fails when it changed since
+   * @throws VersionConflictError when the expected version does not match
+   */
+  public put(key: string, value: string, author: string, expectedVersion?: number, trace?: PromptTrace): BoardEntry {
+    const version = this.entries.get(key)?.version ?? 0;
+    if (expectedVersion !== undefined && expectedVersion !== version) {
+      throw new VersionConflictError(key, expectedVersion, version);
+    }
+
+    const entry: BoardEntry = { key, value, version: version + 1, author, updatedAt: new Date() };
+    this.entries.set(key, entry);
+    this.changed(entry, trace);
+    return { ...entry };
+  }
+
+  /**
+   * Add text to the end of an entry on a new line, creating the entry if needed
+   */
+  public append(key: string, text: string, author: string, trace?: PromptTrace): BoardEntry {
+    const current = this.entries.get(key);
+    return this.put(key, current ? `${current.value}\n${text}` : text, author, undefined, trace);
+  }
+
+  /**
+   * @returns Whether there was an entry to delete
+   */
+  public delete(key: string): boolean {
+    const deleted = this.entries.delete(key);
+    if (deleted) {
+      this.save();
+    }
+    return deleted;
+  }
+
+  public clear(): void {
+    this.entries.clear();
+    this.save();
+  }
+
+  /**
+   * Tell an agent about changes to the entries whose keys start with the prefix
+   */
+  public watch(agentName: string, prefix: string): void {
+    let prefixes = this.watches.get(agentName);
+    if (!prefixes) {
+      prefixes = new Set();
+      this.watches.set(agentName, prefixes);
+    }
+    prefixes.add(prefix);
+  }
+
+  /**
+   * Stop watching a prefix, or every prefix when none is given
+   */
+  public unwatch(agentName: string, prefix?: string): void {
+    if (prefix === undefined) {
+      this.watches.delete(agentName);
+    } else {
+      this.watches.get(agentName)?.delete(prefix);
+    }
+  }
+
+  /**
+   * The names of the agents watching a key
+   */
+  public watchers(key: string): string[] {
+    return Array.from(this.watches).filter(([, prefixes]) => Array.from(prefixes).some((prefix) => key.startsWith(prefix))).map(([name]) => name);
+  }
+
+  /**
+   * Wait for the pending writes to the file
+   */
+  public async flush(): Promise<void> {
+    await this.file?.flush();
+  }
+
+  private changed(entry: BoardEntry, trace?: PromptTrace): void {
+    this.save();
+    this.events.emit("entry:changed", { entry: { ...entry }, trace });
+  }
+
+  private save(): void {
+    this.file?.write(Array.from(this.entries.values()));
+  }
+}
@@ -0,0 +1,74 @@
+import chalk from "npm:chalk";
+import { endStreamedResponse, failActivity, info, response, startActivity, stopActivity, streamResponse } from "../lib/cli.ts";
+import { type EventBus, type SchedulerEvents } from "./events.ts";
+import { type PromptQueueItem } from "./index.ts";
+import { describePrompt } from "./scheduler.ts";
+
+/**
+ * Render the scheduler's events on the console - a spinner line per running prompt,
+ * the agents' responses and any errors or notices
+ * @returns A function that stops the reporting
+ */
+export function reportToConsole(events: EventBus<SchedulerEvents>): () => void {
+  const subscriptions = [
+    events.on("prompt:started", ({ item }) => startActivity(activityId(item), activityText(item))),
+    events.on("prompt:finished", ({ item, error, cancelled }) => {
+      endStreamedResponse(item.agent.name);
+      if (cancelled) {
+        failActivity(activityId(item), `Cancelled ${item.agent.name}`);
+      } else if (error) {
+        failActivity(activityId(item), `Error with agent ${item.agent.name}: ${error}`);
+      } else {
+        stopActivity(activityId(item));
+      }
+    }),
+    events.on("prompt:retrying", ({ item, retry, delay, error }) => {
+      endStreamedResponse(item.agent.name);
+      info(`${item.agent.name} failed (${error}), retry ${retry} in ${(delay / 1000).toFixed(1)}s`);
+    }),
+    events.on("model:fallback", ({ item, from, to, error }) => {
+      endStreamedResponse(item.agent.name);
+      info(`${item.agent.name} switched from ${from} to ${to}, ${from} is unavailable (${error})`);
+    }),
+    events.on("context:compacted", ({ agent, result }) => {
+      const details = [
+        result.summarisedMessages > 0 && `summarised ${result.summarisedMessages} messages`,
+        result.truncatedOutputs > 0 && `cut ${result.truncatedOutputs} tool outputs`,
+      ].filter(Boolean).join(", ");
+      info(`Compacted the conversation of ${agent.name} from about ${result.before} to ${result.after} tokens (${details})`);
+    }),
+    events.on("model:token", ({ agent, text }) => streamResponse(agent.name, text)),
+    // A response that was streamed in full is not shown again
+    events.on("agent:response", ({ agent, message }) => {
+      if (!endStreamedResponse(agent.name)) {
+        response(agent.name, message.content);
+      }
+    }),
+    events.on("tool:approval", ({ agent, call, approved, reason }) => {
+      if (!approved) {
+        info(`${agent.name} was not allowed to call ${call.tool}.${call.function}: ${reason}`);
+      }
+    }),
+    events.on("error", ({ message }) => info(message)),
+    events.on("notice", ({ message }) => info(message)),
+  ];
+
+  return () => subscriptions.forEach((unsubscribe) => unsubscribe());
+}
+
+function activityId(item: PromptQueueItem): string {
+  return `${item.agent.name}#${item.sequence}`;
+}
+
+/**
+ * Format the spinner text with the agent name in light grey and the first line of the prompt
+ */
+function activityText(item: PromptQueueItem): string {
+  // Terminal width estimation (or default to 80 if can't be determined)
+  const terminalWidth = Deno.stdout.isTerminal() ? (Deno.consoleSize?.().columns || 80) : 80;
+  const maxPromptLength = Math.floor(terminalWidth * 2 / 3);
+
+  const sourceInfo = item.sourceAgent ? ` (from ${item.sourceAgent.name})` : "";
+
+  return `${chalk.gray.bold(item.agent.name)}${chalk.gray(sourceInfo)}: ${chalk.gray(describePrompt(item.prompt, maxPromptLength))}`;
+}
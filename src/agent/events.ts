@@ -0,0 +1,108 @@
+import { debugPrefix } from "../lib/cli.ts";
+import { type Agent, type PromptQueueItem, type PromptTrace } from "./index.ts";
+import { type UserQuestion } from "./scheduler.ts";
+import { type ApprovalAction } from "./approval.ts";
+import { type FunctionCall, type ResponseMessage } from "./response-parser.ts";
+import { type CompactionResult, type TokenUsage, type ToolCall, type ToolResponse, type ToolResponses } from "../model/index.ts";
+
+/**
+ * The lifecycle events published by the scheduler and its agents, keyed by event name
+ */
+export type SchedulerEvents = {
+  /** A prompt was added to an agent's queue */
+  "prompt:enqueued": { item: PromptQueueItem };
+  /** An agent started working on a prompt */
+  "prompt:started": { item: PromptQueueItem };
+  /** A prompt failed with a temporary error and will be tried again after the delay in milliseconds */
+  "prompt:retrying": { item: PromptQueueItem; retry: number; delay: number; error: string };
+  /** An agent's model was unavailable, so the agent switched to its next fallback model and tries the prompt again */
+  "model:fallback": { item: PromptQueueItem; from: string; to: string; error: string };
+  /** An agent finished working on a prompt, successfully unless an error is given */
+  "prompt:finished": { item: PromptQueueItem; error?: string; cancelled?: boolean };
+  /** A prompt is about to be sent to an agent's model */
+  "model:request": { agent: Agent; model: string; prompt: string | ToolResponses; trace: PromptTrace };
+  /** A piece of the response of an agent's model as it is streamed, only when the scheduler streams */
+  "model:token": { agent: Agent; model: string; text: string; trace: PromptTrace };
+  /** The raw response of an agent's model, with its native tool calls when the agent uses native tool use */
+  "model:response": { agent: Agent; model: string; response: string; toolCalls?: ToolCall[]; trace: PromptTrace };
+  /** The tokens used by a model call and their cost in US dollars */
+  "model:usage": { agent: Agent; model: string; usage: TokenUsage; cost: number; trace: PromptTrace };
+  /** An agent's conversation was compacted to fit the context window of its model */
+  "context:compacted": { agent: Agent; result: CompactionResult; trace?: PromptTrace };
+  /** The parsed response of an agent, with its tool and agent calls */
+  "agent:response": { agent: Agent; message: ResponseMessage; trace: PromptTrace };
+  /** A tool call was checked against the agent's approval policy, and the user if the policy asks for it */
+  "tool:approval": { agent: Agent; call: FunctionCall; action: ApprovalAction; approved: boolean; reason?: string; trace: PromptTrace };
+  /** An agent is about to call a tool function */
+  "tool:started": { agent: Agent; call: FunctionCall; trace: PromptTrace };
+  /** A tool function call has completed */
+  "tool:finished": { agent: Agent; call: FunctionCall; result: ToolResponse; trace: PromptTrace };
+  /** A message from one agent to another was scheduled, either as a new request or as a reply */
+  "agent:delegation": { from: Agent; to: Agent; message: string; correlationId: string; reply: boolean; trace: PromptTrace };
+  /** An agent created another agent while handling a request */
+  "agent:spawned": { agent: Agent; parent: Agent; trace: PromptTrace };
+  /** A spawned agent was removed */
+  "agent:retired": { agent: Agent; parent?: string };
+  /** An agent asked the user a question with USER: and is paused until it is answered */
+  "user:question": { question: UserQuestion };
+  /** The user answered an agent's question */
+  "user:answer": { question: UserQuestion; answer: string };
+  /** Something went wrong - a failed prompt, an unknown agent, a blocked delegation or an unanswered request */
+  "error": { message: string; agent?: Agent; trace?: PromptTrace };
+  /** Information about the scheduler's work that is not tied to a single prompt */
+  "notice": { message: string };
+  /** An agent signalled with TOOL:done() that its task is complete, after any reply to the requester was scheduled */
+  "task:done": { agent: Agent; content: string; trace: PromptTrace };
+};
+
+export type EventHandler<T> = (payload: T) => void;
+
+export type AnyEventHandler<Events> = <K extends keyof Events>(event: K, payload: Events[K]) => void;
+
+/**
+ * A minimal typed event emitter - handlers run synchronously in the order they subscribed
+ */
+export class EventBus<Events extends Record<string, unknown>> {
+  private handlers: { [K in keyof Events]?: EventHandler<Events[K]>[] } = {};
+  private anyHandlers: AnyEventHandler<Events>[] = [];
+
+  /**
+   * Subscribe to an event
+   * @returns A function that removes the subscription
+   */
+  public on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    (this.handlers[event] ??= []).push(handler);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Subscribe to every event, for observers that record everything such as the transcript
+   * @returns A function that removes the subscription
+   */
+  public onAny(handler: AnyEventHandler<Events>): () => void {
+    this.anyHandlers.push(handler);
+    return () => this.anyHandlers = this.anyHandlers.filter((h) => h !== handler);
+  }
+
+  /**
+   * Remove a subscription
+   */
+  public off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    this.handlers[event] = this.handlers[event]?.filter((h) => h !== handler);
+  }
+
+  /**
+   * Publish an event to all of its subscribers
+   * A failing subscriber is logged and does not affect the others or the publisher
+   */
+  public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const handlers = [...(this.handlers[event] ?? []), ...this.anyHandlers.map((handler) => (payload: Events[K]) => handler(event, payload))];
+    for (const handler of handlers) {
+      try {
+        handler(payload);
+      } catch (e: unknown) {
+        debugPrefix("Events", `Error in ${String(event)} handler: ${e instanceof Error ? e.message : String(e)}`);
+      }
+    }
+  }
+}
@@ -1,10 +1,18 @@
 import * as LLM from "../model/index.ts";
 import * as Tools from "../tools/index.ts";
 import { systemContext } from "./system-context.ts";
-import { debugPrefix, info, response } from "../lib/cli.ts";
+import { debugPrefix, info } from "../lib/cli.ts";
 import { type AgentCall, type FunctionCall, type ResponseMessage, ResponseParser } from "./response-parser.ts";
-import { Context, type ToolResponse, type ToolResponses } from "../model/types.ts";
+import { Context, type ToolCall, type ToolResponse, type ToolResponses } from "../model/types.ts";
 import { PromptScheduler } from "./scheduler.ts";
+import { type BudgetConfig } from "../config/agents.ts";
+import { type ModelOptionsConfig } from "../config/models.ts";
+import { type ApprovalPolicy } from "./approval.ts";
+import { type Memory, MemoryStore } from "./memory.ts";
+import { applyToolCalls, toolDefinitions, type ToolProtocol } from "./tool-use.ts";
+
+// The number of memories put into the system prompt for each prompt
+const RECALLED_MEMORIES = 5;
 
 export interface AgentConfig {
   name: string;
@@ -12,6 +20,30 @@ export interface AgentConfig {
   skills: string[];
   aware_of?: string[];
   modelName?: string;
+  /** Models to switch to, in order, when the agent's model is unavailable */
+  fallback_models?: string[];
+  /** Parameters of the requests to the agent's model, overriding the model's defaults */
+  model_options?: ModelOptionsConfig;
+  budget?: BudgetConfig;
+  approval?: ApprovalPolicy;
+  /** How the agent calls tools, native tool use is only used when the model supports it */
+  tool_protocol?: ToolProtocol;
+}
+
+/**
+ * A delegation that is waiting for a reply: the agent that made it and the correlation it used
+ */
+export interface DelegationFrame {
+  agent: string;
+  correlationId: string;
+}
+
+/**
+ * Tracks the user request a prompt belongs to and the chain of delegations that led to it
+ */
+export interface PromptTrace {
+  requestId: number;
+  ancestry: DelegationFrame[];
 }
 
 export interface PromptQueueItem {
@@ -19,6 +51,8 @@ export interface PromptQueueItem {
   prompt: string | ToolResponses;
   sourceAgent: Agent | undefined;
   correlationId: string | undefined;
+  trace: PromptTrace;
+  sequence: number;
 }
 
 export interface AgentResponse {
@@ -34,7 +68,24 @@ export class Agent {
   public model: LLM.Model;
   public tools: Tools.Tool[];
   public awareOf: string[] = [];
+  /** The model the agent is using, a fallback model once its own model became unavailable */
+  public modelName: string;
+  /** The models to switch to, in order, when the model is unavailable - each is used at most once */
+  public fallbackModels: string[] = [];
+  /** The model the agent was created with */
+  public readonly initialModelName: string;
+  /** Parameters of the requests to the agent's model, overriding the model's defaults */
+  public modelOptions: LLM.ModelOptions | undefined;
+  /** The name of the agent that spawned this one, for agents created at runtime with the team tool */
+  public parent: string | undefined;
+  /** Notes the agent stored with the memory tool, kept across sessions */
+  public readonly memory = new MemoryStore();
+  /** The memories relevant to the prompt the agent is working on, shown in its system prompt */
+  public recalledMemories: Memory[] = [];
+  /** When and how the conversation is compacted to fit the model's context window */
+  public compaction: LLM.CompactionPolicy = LLM.DEFAULT_COMPACTION_POLICY;
   private scheduler: PromptScheduler;
+  private toolProtocol_: ToolProtocol = "text";
 
   /**
    * Constructor to initialize an agent with a model and tools
@@ -44,6 +95,8 @@ export class Agent {
    * @param modelName The name of the model to use
    * @param tools Array of tools the agent can use
    * @param awareOf Names of other agents this agent is aware of
+   * @param parent The name of the agent that spawned this one
+   * @param modelOptions Parameters of the requests to the model, overriding the model's defaults
    */
   constructor(
     name: string,
@@ -53,12 +106,18 @@ export class Agent {
     tools: Tools.Tool[] | undefined = undefined,
     awareOf: string[] = [],
     scheduler: PromptScheduler,
+    parent?: string,
+    modelOptions?: LLM.ModelOptions,
   ) {
     this.name = name;
     this.bio = bio;
     this.skills = skills;
     this.awareOf = awareOf;
-    const model = LLM.newModel(modelName);
+    this.modelName = modelName;
+    this.initialModelName = modelName;
+    this.parent = parent;
+    this.modelOptions = modelOptions;
+    const model = LLM.newModel(modelName, name, modelOptions);
     if (!model) {
       throw new Error(`Model "${modelName}" not found. Please check the model name and try again.`);
     }
@@ -66,30 +125,124 @@ export class Agent {
     this.tools = tools || Tools.tools;
 
     this.scheduler = scheduler;
+    this.scheduler.registerAgent(this);
 
     // Set up the system context for the model
     this.model.systemMessage(systemContext(this));
   }
 
+  /**
+   * How the agent calls tools and other agents, changing it updates the system prompt
+   */
+  public get toolProtocol(): ToolProtocol {
+    return this.toolProtocol_;
+  }
+
+  public set toolProtocol(protocol: ToolProtocol) {
+    this.toolProtocol_ = protocol;
+    this.model.systemMessage(systemContext(this));
+  }
+
+  /**
+   * Whether the agent calls tools with its model's native tool use, which it does when asked to and the model supports it
+   */
+  public get nativeTools(): boolean {
+    return this.toolProtocol_ === "native" && this.model.supportsTools?.() === true;
+  }
+
+  /**
+   * Switch to the next fallback model, which takes over the conversation so far
+   * Unknown models are skipped.
+   * @returns The name of the model the agent switched to, undefined when there is no fallback left
+   */
+  public fallBack(): string | undefined {
+    for (let modelName = this.fallbackModels.shift(); modelName !== undefined; modelName = this.fallbackModels.shift()) {
+      const model = LLM.newModel(modelName, this.name, this.modelOptions);
+      if (!model) {
+        continue;
+      }
+
+      (model as LLM.BaseModel).setContext((this.model as LLM.BaseModel).getContext());
+      this.model = model;
+      this.modelName = modelName;
+      this.model.systemMessage(systemContext(this));
+      return modelName;
+    }
+    return undefined;
+  }
+
+  /**
+   * The registered agents this agent is aware of
+   */
+  public get agents(): Agent[] {
+    return this.awareOf.map((name) => this.scheduler.getAgent(name)).filter((agent): agent is Agent => agent !== undefined);
+  }
+
+  /**
+   * Create a sub-agent with the same tools and model options, which this agent can delegate to until it retires it
+   * @param modelName The model of the new agent, this agent's model when not given
+   * @param trace The trace of the prompt this agent is handling, the spawn counts towards the limits of its request
+   * @throws When the name is taken, the model is unknown or the request has spawned the maximum number of agents
+   */
+  public spawn(name: string, bio: string, skills: string[], modelName: string | undefined, trace: PromptTrace): Agent {
+    const refusal = this.scheduler.spawnRefusal(name, trace);
+    if (refusal) {
+      throw new Error(refusal);
+    }
+
+    const agent = new Agent(name, bio, skills, modelName ?? this.modelName, this.tools, [this.name], this.scheduler, this.name, this.modelOptions);
+    agent.compaction = this.compaction;
+    agent.toolProtocol = this.toolProtocol;
+    if (modelName === undefined) {
+      agent.fallbackModels = [...this.fallbackModels];
+    }
+    this.scheduler.recordSpawn(agent, this, trace);
+
+    this.awareOf = [...this.awareOf, name];
+    this.model.systemMessage(systemContext(this));
+    return agent;
+  }
+
+  /**
+   * Remove an agent that this agent spawned
+   * @throws When the agent was not spawned by this agent or still has work in progress
+   */
+  public retire(name: string): void {
+    const agent = this.scheduler.getAgent(name);
+    if (!agent || agent.parent !== this.name) {
+      throw new Error(`${name} is not an agent spawned by ${this.name}`);
+    }
+
+    const refusal = this.scheduler.retireAgent(agent);
+    if (refusal) {
+      throw new Error(refusal);
+    }
+
+    this.awareOf = this.awareOf.filter((other) => other !== name);
+    this.model.systemMessage(systemContext(this));
+  }
+
   /**
    * Handles a prompt from the scheduler or directly from the user
    * This is used by the scheduler to process prompts from the queue
    *
-   * @param prompt The prompt to process
-   * @param correlationId An identifier for tracking this prompt
-   * @param sourceAgent The agent that sent this prompt (if applicable)
+   * @param item The queued prompt, with its correlation, source agent and trace
+   * @param signal Aborts the model request and any running tools when the work is cancelled
    */
-  public async handlePrompt(
-    prompt: string | ToolResponses,
-    correlationId: string | undefined,
-    sourceAgent: Agent | undefined,
-  ): Promise<void> {
+  public async handlePrompt(item: PromptQueueItem, signal?: AbortSignal): Promise<void> {
+    const { prompt, correlationId, sourceAgent, trace } = item;
+
     if (correlationId && sourceAgent) {
+      const reply = this.nativeTools
+        ? `the send_message tool, with agent ${sourceAgent.name} and correlation ${correlationId},`
+        : `AGENT:${correlationId}:${sourceAgent.name}(...message...)`;
       await this.processPromptWithResult(
-        `Prompt from agent ${sourceAgent.name} with correlation ${correlationId}.  Please respond directly to the agent with AGENT:${correlationId}:${sourceAgent.name}(...message...) when you have completed the task.  You may ask the agent clarifying questions.\n\n${prompt}`,
+        `Prompt from agent ${sourceAgent.name} with correlation ${correlationId}.  Please respond directly to the agent with ${reply} when you have completed the task.  You may ask the agent clarifying questions.\n\n${prompt}`,
+        trace,
+        signal,
       );
     } else {
-      await this.processPromptWithResult(prompt);
+      await this.processPromptWithResult(prompt, trace, signal);
     }
   }
 
@@ -97,28 +250,62 @@ export class Agent {
    * Process a prompt and return the result without displaying in console
    * Used by the scheduler for agent-to-agent communication
    */
-  private async processPromptWithResult(prompt: string | ToolResponses): Promise<void> {
-    const answer = await this.generateResponse(prompt);
+  private async processPromptWithResult(prompt: string | ToolResponses, trace: PromptTrace, signal?: AbortSignal): Promise<void> {
+    let response: { answer: string; toolCalls: ToolCall[] };
+    try {
+      response = await this.generateResponse(prompt, trace, signal);
+    } catch (e: unknown) {
+      if (!(e instanceof LLM.TruncatedResponseError)) {
+        throw e;
+      }
+      // The calls in a cut off response may be cut off too, so none of them are made and the agent is asked to try again
+      this.scheduler.events.emit("error", { message: `The response of ${this.name} was not used: ${e.message}`, agent: this, trace });
+      this.scheduler.schedulePrompt(
+        this,
+        `Error: your last response was cut off after ${e.partial.length} characters because it was too long, so none of its tool or agent calls were made. Respond again with less text, splitting the work into smaller steps.`,
+        undefined,
+        undefined,
+        trace,
+      );
+      return;
+    }
+    const { answer, toolCalls } = response;
 
     try {
-      // Parse the response
+      // Parse the response, native tool calls are handled as if they had been written in it
       const parser = new ResponseParser(answer);
-      const responseMessage: ResponseMessage = parser.parse();
+      const responseMessage: ResponseMessage = applyToolCalls(parser.parse(), toolCalls, this.tools);
 
-      response(this.name, responseMessage.content);
+      this.scheduler.events.emit("agent:response", { agent: this, message: responseMessage, trace });
 
-      // Handle tool calls
+      // Handle tool calls - once the task is done their results are not sent back to the agent
       if (responseMessage.function_calls) {
-        await this.processTools(responseMessage.function_calls);
+        await this.processTools(responseMessage.function_calls, trace, signal, !responseMessage.done);
       }
 
       // Handle agent calls
       if (responseMessage.agent_calls && this.scheduler) {
-        this.processAgentCalls(responseMessage.agent_calls);
+        this.processAgentCalls(responseMessage.agent_calls, trace);
+      }
+
+      // Handle questions for the user
+      for (const userCall of responseMessage.user_calls ?? []) {
+        this.scheduler.askUser(this, userCall, trace);
+      }
+
+      if (responseMessage.done) {
+        this.scheduler.completeTask(this, responseMessage.content, trace);
       }
     } catch (e: unknown) {
-      // Log error
-      debugPrefix(this.model.getModelName(), `Error in processPromptWithResult: ${e}`);
+      // A cancelled prompt is reported as cancelled by the scheduler, not as finished
+      if (signal?.aborted) {
+        throw e;
+      }
+      this.scheduler.events.emit("error", {
+        message: `Error handling the response of ${this.name}: ${e instanceof Error ? e.message : String(e)}`,
+        agent: this,
+        trace,
+      });
     }
   }
 
@@ -181,31 +368,119 @@ export class Agent {
     }
   }
 
-  private async generateResponse(prompt: string | ToolResponses): Promise<string> {
-    debugPrefix(this.model.getModelName() + " prompt", prompt);
-    const answer = await this.model.generateResponse(prompt);
-    debugPrefix(this.model.getModelName() + " response", answer);
+  private async generateResponse(
+    prompt: string | ToolResponses,
+    trace: PromptTrace,
+    signal?: AbortSignal,
+  ): Promise<{ answer: string; toolCalls: ToolCall[] }> {
+    const model = this.model.getModelName();
+
+    // Show the memories relevant to a new prompt in the system prompt, tool results continue with the same memories
+    if (typeof prompt === "string" && (this.memory.size > 0 || this.recalledMemories.length > 0)) {
+      this.recalledMemories = this.memory.search(prompt, RECALLED_MEMORIES, true);
+      this.model.systemMessage(systemContext(this));
+    }
+
+    // Make room for the prompt when the conversation is getting too big for the model
+    await this.compact(false, trace, signal);
+
+    debugPrefix(model + " prompt", prompt);
+    this.scheduler.events.emit("model:request", { agent: this, model, prompt, trace });
+    let toolCalls: ToolCall[] = [];
+    const answer = await this.model.generateResponse(prompt, {
+      signal,
+      onUsage: (usage) => this.scheduler.recordUsage(this, model, usage, trace),
+      onToken: this.scheduler.streaming ? (text) => this.scheduler.events.emit("model:token", { agent: this, model, text, trace }) : undefined,
+      ...(this.nativeTools ? { tools: toolDefinitions(this.tools), onToolCalls: (calls: ToolCall[]) => toolCalls = calls } : {}),
+    });
+    debugPrefix(model + " response", answer);
+    this.scheduler.events.emit("model:response", { agent: this, model, response: answer, ...(toolCalls.length > 0 ? { toolCalls } : {}), trace });
+
+    return { answer, toolCalls };
+  }
+
+  /**
+   * Compact the conversation when it is getting too big for the model's context window
+   * Older tool outputs are cut and, when that is not enough, the older messages are summarised by the summariser model.
+   * A summariser that fails leaves the conversation with only the tool outputs cut.
+   *
+   * @param force Compact even when the conversation fits, as with /compact
+   * @param trace The trace of the prompt the agent is handling, the summariser's usage counts towards its request
+   * @returns What was compacted, or undefined when the model's context can't be compacted
+   */
+  public async compact(force = false, trace?: PromptTrace, signal?: AbortSignal): Promise<LLM.CompactionResult | undefined> {
+    if (!(this.model instanceof LLM.BaseModel)) {
+      return undefined;
+    }
+    const model = this.model;
+    const contextWindow = LLM.modelContextWindow(this.modelName);
+    if (contextWindow === undefined && !force) {
+      return undefined;
+    }
+
+    const summariserName = this.compaction.summariser ?? this.modelName;
+    const summarise = async (messages: LLM.Context): Promise<string> => {
+      const summariser = LLM.newModel(summariserName, this.name);
+      if (!summariser) {
+        throw new Error(`Model "${summariserName}" not found`);
+      }
+      summariser.systemMessage(LLM.SUMMARY_INSTRUCTIONS);
+      return await summariser.generateResponse(LLM.transcript(messages), {
+        signal,
+        onUsage: (usage) => trace && this.scheduler.recordUsage(this, summariserName, usage, trace),
+      });
+    };
+
+    const compact = (summarise?: (messages: LLM.Context) => Promise<string>) =>
+      LLM.compactContext(model.getContext(), model.getSystemMessage(), contextWindow ?? Infinity, this.compaction, summarise, force);
 
-    return answer;
+    let result: LLM.CompactionResult;
+    try {
+      result = await compact(summarise);
+    } catch (e) {
+      signal?.throwIfAborted();
+      this.scheduler.events.emit("error", {
+        message: `Error summarising the conversation of ${this.name}: ${e instanceof Error ? e.message : String(e)}`,
+        agent: this,
+        trace,
+      });
+      result = await compact();
+    }
+
+    if (result.truncatedOutputs > 0 || result.summarisedMessages > 0) {
+      model.setContext(result.context);
+      this.scheduler.events.emit("context:compacted", { agent: this, result, trace });
+    }
+    return result;
   }
 
-  private async processTools(toolUsages: FunctionCall[]): Promise<void> {
+  private async processTools(toolUsages: FunctionCall[], trace: PromptTrace, signal?: AbortSignal, sendResults = true): Promise<void> {
     const results: ToolResponse[] = [];
 
     for (const toolUsage of toolUsages) {
-      const result = await this.processTool(toolUsage);
+      // Don't start any more tools once the work has been cancelled
+      signal?.throwIfAborted();
+
+      this.scheduler.events.emit("tool:started", { agent: this, call: toolUsage, trace });
+      const result = await this.processTool(toolUsage, trace, signal);
+      this.scheduler.events.emit("tool:finished", { agent: this, call: toolUsage, result, trace });
       results.push(result);
     }
 
-    this.scheduler?.schedulePrompt(this, { type: "tool_responses", responses: results });
+    if (sendResults) {
+      this.scheduler?.schedulePrompt(this, { type: "tool_responses", responses: results }, undefined, undefined, trace);
+    }
   }
 
   /**
    * Processes a tool execution request
+   * The call is checked against the agent's approval policy first, a refusal is returned as the tool's result
    * @param toolUsage The tool usage information
+   * @param trace The trace of the prompt the agent is handling
+   * @param signal Passed to the tool so that it can stop when the work is cancelled
    * @returns The model's response after tool execution
    */
-  private async processTool(toolUsage: FunctionCall): Promise<ToolResponse> {
+  private async processTool(toolUsage: FunctionCall, trace: PromptTrace, signal?: AbortSignal): Promise<ToolResponse> {
     const toolIdentifier = toolUsage.tool;
     const functionName = toolUsage.function;
     const args = toolUsage.args;
@@ -216,7 +491,21 @@ export class Agent {
     if (tool) {
       if (tool.functionMap[functionName]) {
         try {
-          const toolResult = await tool.functionMap[functionName](...args.map((arg) => eval(arg)));
+          const values = args.map((arg) => eval(arg));
+
+          const risk = tool.functions.find((f) => f.name === functionName)?.risk ?? "medium";
+          const refusal = await this.scheduler.approveToolCall(this, toolUsage, values, risk, trace, signal);
+          if (refusal) {
+            return { correlationId: toolUsage.correlationId, success: false, content: `Tool call not approved: ${refusal}` };
+          }
+
+          const toolResult = await tool.functionMap[functionName](values, {
+            signal,
+            agent: this,
+            trace,
+            board: this.scheduler.board,
+            tasks: this.scheduler.tasks,
+          });
           return { correlationId: toolUsage.correlationId, success: true, content: toolResult };
         } catch (e) {
           return { correlationId: toolUsage.correlationId, success: false, content: `Function error: ${e instanceof Error ? e.message : String(e)}` };
@@ -232,14 +521,9 @@ export class Agent {
   /**
    * Process agent calls by sending prompts to other agents
    */
-  private processAgentCalls(agentCalls: AgentCall[]): void {
+  private processAgentCalls(agentCalls: AgentCall[], trace: PromptTrace): void {
     for (const agentCall of agentCalls) {
-      this.scheduler.schedulePrompt(
-        agentCall.name,
-        agentCall.message,
-        agentCall.correlationId,
-        this,
-      );
+      this.scheduler.scheduleDelegation(this, agentCall, trace);
     }
   }
 }
@@ -0,0 +1,120 @@
+import { type PromptTrace } from "./index.ts";
+
+export type LedgerStatus = "pending" | "answered" | "timed_out" | "unanswered" | "failed" | "cancelled";
+
+/**
+ * A request from one agent to another, tracked until the callee replies
+ */
+export interface LedgerEntry {
+  /** Correlation ID assigned by the scheduler */
+  id: string;
+  /** Correlation ID the requesting agent used in its AGENT: call */
+  requesterCorrelationId: string;
+  from: string;
+  to: string;
+  message: string;
+  /** Trace of the requesting agent when the request was made, replies continue from here */
+  trace: PromptTrace;
+  createdAt: Date;
+  resolvedAt?: Date;
+  status: LedgerStatus;
+}
+
+/**
+ * CorrelationLedger keeps track of the requests between agents so that replies can be matched
+ * and requests that are never answered can be reported back to the requester
+ */
+export class CorrelationLedger {
+  private entries: Map<string, LedgerEntry> = new Map();
+  private nextId = 1;
+
+  /**
+   * Record a new request and assign it a unique correlation ID
+   */
+  public open(from: string, to: string, requesterCorrelationId: string, message: string, trace: PromptTrace): LedgerEntry {
+    const entry: LedgerEntry = {
+      id: `c${this.nextId++}`,
+      requesterCorrelationId,
+      from,
+      to,
+      message,
+      trace,
+      createdAt: new Date(),
+      status: "pending",
+    };
+    this.entries.set(entry.id, entry);
+
+    return entry;
+  }
+
+  /**
+   * Find a request by the scheduler assigned correlation ID
+   */
+  public get(id: string): LedgerEntry | undefined {
+    return this.entries.get(id);
+  }
+
+  /**
+   * Find the request that a message from one agent to another answers
+   * The scheduler assigned ID is preferred, but the requester's own ID is accepted when it is unambiguous.
+   * Requests that have already timed out still match, so that late replies reach the requester.
+   *
+   * @param from - The agent sending the message, the callee of the request
+   * @param to - The agent receiving the message, the requester
+   * @param correlationId - The correlation ID used in the message
+   */
+  public findReply(from: string, to: string, correlationId: string): LedgerEntry | undefined {
+    const entry = this.entries.get(correlationId);
+    if (entry && entry.from === to && entry.to === from) {
+      return entry;
+    }
+
+    const candidates = this.all().filter((e) => e.from === to && e.to === from && e.requesterCorrelationId === correlationId);
+    const pending = candidates.filter((e) => e.status === "pending");
+    if (pending.length > 0) {
+      return pending.length === 1 ? pending[0] : undefined;
+    }
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  /**
+   * Close a request with the given status
+   */
+  public resolve(entry: LedgerEntry, status: Exclude<LedgerStatus, "pending">): void {
+    entry.status = status;
+    entry.resolvedAt = new Date();
+  }
+
+  /**
+   * Get the requests that are still waiting for a reply, oldest first
+   */
+  public pending(): LedgerEntry[] {
+    return this.all().filter((entry) => entry.status === "pending");
+  }
+
+  /**
+   * Get all requests, oldest first
+   */
+  public all(): LedgerEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Get the pending requests that have waited longer than the timeout
+   */
+  public overdue(timeout: number, now: number = Date.now()): LedgerEntry[] {
+    return this.pending().filter((entry) => now - entry.createdAt.getTime() >= timeout);
+  }
+
+  /**
+   * Get the time in milliseconds until the next pending request times out, or undefined when nothing is pending
+   */
+  public nextDeadline(timeout: number, now: number = Date.now()): number | undefined {
+    const pending = this.pending();
+    if (pending.length === 0) {
+      return undefined;
+    }
+
+    return Math.max(0, Math.min(...pending.map((entry) => entry.createdAt.getTime() + timeout - now)));
+  }
+}
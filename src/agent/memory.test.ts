@@ -0,0 +1,28 @@
+// Tests for memory.ts
+import { assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { MemoryStore, rankBm25 } from "./memory.ts";
+
+Deno.test("rankBm25 - ranks the documents sharing rare terms first", () => {
+  const documents = [
+    "Use tabs for indentation in the flight simulator",
+    "The project uses Deno and TypeScript",
+    "Run the tests with deno test before committing",
+  ];
+
+  assertEquals(rankBm25(documents, "how do I run the deno tests?").map(({ index }) => index), [2, 1]);
+  assertEquals(rankBm25(documents, "indentation").map(({ index }) => index), [0]);
+  assertEquals(rankBm25(documents, "python"), []);
+});
+
+Deno.test("MemoryStore - prune keeps the most recently recalled memories", () => {
+  const store = new MemoryStore();
+  store.add("first note about parsing");
+  store.add("second note about rendering");
+  store.add("third note about physics");
+  store.search("parsing", 1, true);
+
+  const removed = store.prune(2);
+
+  assertEquals(removed.length, 1);
+  assertEquals(store.list().map((memory) => memory.id).includes(1), true);
+});
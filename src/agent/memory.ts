@@ -0,0 +1,191 @@
+import { debugPrefix } from "../lib/cli.ts";
+import { SnapshotFile } from "../lib/snapshot-file.ts";
+
+/**
+ * A note an agent stored to remember across sessions
+ */
+export interface Memory {
+  id: number;
+  text: string;
+  createdAt: Date;
+  /** When the memory was last retrieved for a prompt */
+  recalledAt?: Date;
+  /** How often the memory was retrieved for a prompt */
+  recalls: number;
+}
+
+// BM25 parameters: how quickly repeated terms stop adding to the score, and how much long memories are penalised
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Words too common to say anything about relevance, which would otherwise match almost every memory
+const STOP_WORDS = new Set(
+  "a an and are as at be but by do for from has have how i if in is it its me my of on or so that the this to was we what when with you your".split(" "),
+);
+
+/**
+ * The long-term memory of an agent, searched locally with BM25
+ * The memories are saved to a file after every change.
+ */
+export class MemoryStore {
+  private memories: Map<number, Memory> = new Map();
+  private nextId = 1;
+  private file: SnapshotFile<Memory[]> | undefined;
+
+  /**
+   * Load the memories from a file, which is then kept up to date - a missing file starts an empty memory
+   * @throws When the file can't be read, it is then left as it is
+   */
+  public async load(path: string): Promise<void> {
+    const file = new SnapshotFile<Memory[]>(path, "Memory");
+    const memories = await file.read() ?? [];
+    this.memories = new Map(memories.map((memory) => [memory.id, {
+      ...memory,
+      createdAt: new Date(memory.createdAt),
+      recalledAt: memory.recalledAt && new Date(memory.recalledAt),
+    }]));
+    this.nextId = Math.max(0, ...this.memories.keys()) + 1;
+    this.file = file;
+    debugPrefix("Memory", `Loaded ${this.memories.size} memories from ${path}`);
+  }
+
+  public get size(): number {
+    return this.memories.size;
+  }
+
+  /**
+   * All memories, oldest first
+   */
+  public list(): Memory[] {
+    return Array.from(this.memories.values()).map((memory) => ({ ...memory }));
+  }
+
+  public add(text: string): Memory {
+    const memory: Memory = { id: this.nextId++, text, createdAt: new Date(), recalls: 0 };
+    this.memories.set(memory.id, memory);
+    this.save();
+    return { ...memory };
+  }
+
+  /**
+   * Replace the text of a memory
+   * @returns The changed memory, or undefined when there is no memory with the ID
+   */
+  public update(id: number, text: string): Memory | undefined {
+    const memory = this.memories.get(id);
+    if (!memory) {
+      return undefined;
+    }
+    memory.text = text;
+    this.save();
+    return { ...memory };
+  }
+
+  /**
+   * @returns Whether there was a memory to remove
+   */
+  public remove(id: number): boolean {
+    const removed = this.memories.delete(id);
+    if (removed) {
+      this.save();
+    }
+    return removed;
+  }
+
+  /**
+   * Keep only the memories that were most recently recalled or created
+   * @returns The memories that were removed
+   */
+  public prune(keep: number): Memory[] {
+    const lastUsed = (memory: Memory) => (memory.recalledAt ?? memory.createdAt).getTime();
+    const removed = Array.from(this.memories.values())
+      .sort((a, b) => lastUsed(b) - lastUsed(a))
+      .slice(Math.max(0, keep));
+
+    removed.forEach((memory) => this.memories.delete(memory.id));
+    if (removed.length > 0) {
+      this.save();
+    }
+    return removed;
+  }
+
+  /**
+   * Find the memories most relevant to a text, most relevant first
+   * @param recall Whether the memories are being used for a prompt, which keeps them from being pruned
+   */
+  public search(query: string, limit: number, recall = false): Memory[] {
+    const memories = Array.from(this.memories.values());
+    const found = rankBm25(memories.map((memory) => memory.text), query)
+      .slice(0, limit)
+      .map(({ index }) => memories[index]);
+
+    if (recall && found.length > 0) {
+      const now = new Date();
+      for (const memory of found) {
+        memory.recalledAt = now;
+        memory.recalls++;
+      }
+      this.save();
+    }
+    return found.map((memory) => ({ ...memory }));
+  }
+
+  /**
+   * The memories as JSON, in the format of the memory file
+   */
+  public export(): string {
+    return JSON.stringify(Array.from(this.memories.values()), null, 2);
+  }
+
+  /**
+   * Wait for the pending writes to the file
+   */
+  public async flush(): Promise<void> {
+    await this.file?.flush();
+  }
+
+  private save(): void {
+    this.file?.write(Array.from(this.memories.values()));
+  }
+}
+
+/**
+ * Rank documents by their BM25 relevance to a query
+ * @returns The indexes of the documents that share a term with the query and their scores, highest score first
+ */
+export function rankBm25(documents: string[], query: string): { index: number; score: number }[] {
+  const queryTerms = new Set(tokenize(query));
+  const documentTerms = documents.map(tokenize);
+  if (queryTerms.size === 0 || documents.length === 0) {
+    return [];
+  }
+
+  const averageLength = documentTerms.reduce((total, terms) => total + terms.length, 0) / documents.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documentTerms) {
+    for (const term of new Set(terms)) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  return documentTerms
+    .map((terms, index) => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = terms.filter((t) => t === term).length;
+        if (frequency === 0) {
+          continue;
+        }
+        const df = documentFrequency.get(term)!;
+        const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+        score += idf * frequency * (BM25_K1 + 1) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * terms.length / averageLength));
+      }
+      return { index, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((term) => !STOP_WORDS.has(term));
+}
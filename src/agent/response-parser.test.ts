@@ -347,3 +347,32 @@ TOOL:done`;
   assertEquals(result.function_calls?.[0].function, "write");
   assertEquals(result.function_calls?.[0].args, ['"results.txt"', '"Area = πr²"']);
 });
+
+Deno.test("ResponseParser - user call", () => {
+  const rawResponse = `The requirements don't say which database to use.
+USER:q-1("Should the service use PostgreSQL or SQLite?")
+I'll wait for the answer.`;
+
+  const parser = new ResponseParser(rawResponse);
+  const result = parser.parse();
+
+  assertEquals(result.done, false);
+  assertEquals(result.user_calls, [{ correlationId: "q-1", question: "Should the service use PostgreSQL or SQLite?" }]);
+  assertEquals(
+    result.content,
+    `The requirements don't say which database to use.\n\n[Asking the user: "Should the service use PostgreSQL or SQLite?"]\n\nI'll wait for the answer.`,
+  );
+});
+
+Deno.test("ResponseParser - user call alongside an agent call", () => {
+  const rawResponse = `AGENT:1:Typer("Set up the project")
+USER:2("Which port should the server listen on?")`;
+
+  const parser = new ResponseParser(rawResponse);
+  const result = parser.parse();
+
+  assertEquals(result.agent_calls?.length, 1);
+  assertEquals(result.user_calls?.length, 1);
+  assertEquals(result.user_calls?.[0].correlationId, "2");
+  assertEquals(result.user_calls?.[0].question, "Which port should the server listen on?");
+});
@@ -5,6 +5,7 @@ export type ResponseMessage = {
   content: string;
   function_calls?: FunctionCall[];
   agent_calls?: AgentCall[];
+  user_calls?: UserCall[];
 };
 
 export type FunctionCall = {
@@ -20,6 +21,11 @@ export type AgentCall = {
   message: string;
 };
 
+export type UserCall = {
+  correlationId: string;
+  question: string;
+};
+
 /**
  * ResponseParser class for parsing model responses in various formats
  * into a standardized JSON structure
@@ -44,6 +50,7 @@ export class ResponseParser {
     let content = "";
     const functionCalls: FunctionCall[] = [];
     const agentCalls: AgentCall[] = [];
+    const userCalls: UserCall[] = [];
     let isDone = false;
 
     while (!scanner.eof()) {
@@ -274,6 +281,67 @@ export class ResponseParser {
           correlationId,
           message: cleanMessage,
         });
+      } // Check if the current position has a USER: prefix
+      else if (scanner.hasPrefix("USER:")) {
+        const userStart = scanner.position;
+        scanner.position += 5; // Skip "USER:"
+
+        scanner.skipWhitespace();
+
+        // Extract the correlation ID (format: correlationId)
+        const correlationId = scanner.nextUntil(["(", " ", "\n"]) || "default";
+
+        scanner.skipWhitespace();
+
+        // Parse the question (argument)
+        const args = parseArguments(scanner);
+        const question = args.length > 0 ? args[0] : "";
+
+        // Cleanup the question - remove quotes if they exist
+        const cleanQuestion = question.startsWith('"') && question.endsWith('"') ? question.substring(1, question.length - 1) : question;
+
+        // Skip to the next line
+        let textAfterUserCall = "";
+        while (!scanner.eof() && scanner.peek() !== "\n") {
+          textAfterUserCall += scanner.next();
+        }
+
+        // Add the content before this user call
+        content += this.rawResponse.substring(lineStart, userStart);
+
+        // Format the content to ensure proper spacing before user call
+        if (!content.endsWith("\n\n")) {
+          content += content.endsWith("\n") ? "\n" : "\n\n";
+        }
+
+        // Create a readable description of the user call
+        content += `[Asking the user: "${cleanQuestion}"]`;
+
+        // Add any text that was on the same line after the user call
+        if (textAfterUserCall.trim().length > 0) {
+          content += "\n\n" + textAfterUserCall;
+        }
+
+        // Keep the spacing of the text that follows, as for agent calls
+        if (!scanner.eof()) {
+          scanner.next(); // Skip the newline
+
+          if (!scanner.eof()) {
+            if (scanner.peek() === "\n") {
+              scanner.next(); // Skip the second newline
+              content += "\n\n"; // Add the blank line to the output
+            } else if (!content.endsWith("\n")) {
+              content += "\n\n";
+            } else if (!content.endsWith("\n\n")) {
+              content += "\n";
+            }
+          }
+        }
+
+        userCalls.push({
+          correlationId,
+          question: cleanQuestion,
+        });
       } else {
         // Handle regular text lines (non-tool calls and non-agent calls)
         const lineEnd = scanner.findEndOfLine();
@@ -293,6 +361,7 @@ export class ResponseParser {
       content: content,
       ...(functionCalls.length > 0 ? { function_calls: functionCalls } : {}),
       ...(agentCalls.length > 0 ? { agent_calls: agentCalls } : {}),
+      ...(userCalls.length > 0 ? { user_calls: userCalls } : {}),
     };
   }
 }
@@ -0,0 +1,29 @@
+/**
+ * How often and how patiently a failed model call is retried
+ */
+export interface RetryPolicy {
+  /** Maximum number of retries of a prompt, after the first attempt */
+  maxRetries: number;
+  /** Milliseconds to wait before the first retry, doubled for every further retry */
+  initialDelay: number;
+  /** Upper limit in milliseconds of the wait between retries */
+  maxDelay: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  initialDelay: 1000,
+  maxDelay: 30 * 1000,
+};
+
+/**
+ * The time to wait before a retry: exponential backoff with jitter, so that agents failing together don't retry together
+ * @param retry The number of the retry, starting at 0
+ * @param retryAfter The wait the API asked for, which is honoured when it is longer
+ */
+export function backoffDelay(policy: RetryPolicy, retry: number, retryAfter?: number): number {
+  const ceiling = Math.min(policy.maxDelay, policy.initialDelay * 2 ** retry);
+  const delay = ceiling / 2 + Math.random() * ceiling / 2;
+
+  return Math.round(Math.max(delay, retryAfter ?? 0));
+}
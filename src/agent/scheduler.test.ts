@@ -0,0 +1,527 @@
+// Tests for scheduler.ts, with agents on stubbed models and end-to-end with agents on scripted models
+import { assertEquals, assertThrows } from "https://deno.land/std/testing/asserts.ts";
+import { stringify as stringifyYaml } from "https://deno.land/std@0.224.0/yaml/mod.ts";
+import { BaseModel, type GenerateOptions, ModelError, openAIModel, registerModel, type ScriptedFixture, type ToolResponses } from "../model/index.ts";
+import { Agent } from "./index.ts";
+import { PromptScheduler } from "./scheduler.ts";
+import { readTranscript, Transcript } from "./transcript.ts";
+
+/**
+ * A model that answers with a function of the agent's name and the prompt, so that no model server is needed
+ * It reports a token for every character of the prompt and the response.
+ */
+class StubModel extends BaseModel {
+  constructor(private readonly agentName: string, private readonly respond: (agent: string, prompt: string) => string | Promise<string>) {
+    super();
+  }
+
+  public async generateResponse(prompt: string | ToolResponses, options?: GenerateOptions): Promise<string> {
+    const text = typeof prompt === "string" ? prompt : JSON.stringify(prompt);
+    const response = await this.respond(this.agentName, text);
+    this.context.push({ role: "user", content: prompt }, { role: "assistant", content: response });
+    options?.onUsage?.({ inputTokens: text.length, outputTokens: response.length });
+    return response;
+  }
+
+  public getModelName(): string {
+    return "stub";
+  }
+}
+
+function stubbedAgents(
+  scheduler: PromptScheduler,
+  names: string[],
+  respond: (agent: string, prompt: string) => string | Promise<string>,
+): Agent[] {
+  return names.map((name) => {
+    const agent = new Agent(name, "A stubbed agent", [], "llama3.2", undefined, names.filter((other) => other !== name), scheduler);
+    agent.model = new StubModel(name, respond);
+    return agent;
+  });
+}
+
+async function writeFixture(fixture: ScriptedFixture): Promise<string> {
+  const file = await Deno.makeTempFile({ suffix: ".yaml" });
+  await Deno.writeTextFile(file, stringifyYaml(fixture));
+  return file;
+}
+
+Deno.test("PromptScheduler - agents work in parallel up to the concurrency limit, each on one prompt at a time", async () => {
+  const scheduler = new PromptScheduler({ concurrency: 2 });
+  const running: string[] = [];
+  let mostRunning = 0;
+  let sameAgentTwice = false;
+  const agents = stubbedAgents(scheduler, ["Manager", "Typer", "Reviewer"], async (agent) => {
+    sameAgentTwice ||= running.includes(agent);
+    running.push(agent);
+    mostRunning = Math.max(mostRunning, running.length);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    running.splice(running.indexOf(agent), 1);
+    return "Done.";
+  });
+
+  agents.forEach((agent) => agent.prompt("Work"));
+  agents[0].prompt("Work more");
+  await scheduler.processQueue();
+
+  assertEquals([mostRunning, sameAgentTwice], [2, false]);
+});
+
+Deno.test("PromptScheduler - a concurrency that is not a whole number is rejected", () => {
+  assertThrows(() => new PromptScheduler({ concurrency: NaN }), Error, "Invalid concurrency: NaN");
+});
+
+Deno.test("PromptScheduler - a delegation deeper than the maximum depth is blocked and the sender is told", async () => {
+  const scheduler = new PromptScheduler({ maxDepth: 1 });
+  const prompts: string[] = [];
+  const [manager] = stubbedAgents(scheduler, ["Manager", "Typer", "Reviewer"], (agent, prompt) => {
+    prompts.push(`${agent}: ${prompt}`);
+    if (agent === "Manager" && prompt === "Plan the tests") {
+      return 'AGENT:c1:Typer("Write the plan")';
+    }
+    return agent === "Typer" && prompt.endsWith("Write the plan") ? 'AGENT:c2:Reviewer("Check the plan")' : "Nothing more to do.";
+  });
+
+  manager.prompt("Plan the tests");
+  await scheduler.processQueue();
+
+  assertEquals(prompts.map((prompt) => prompt.split(":")[0]), ["Manager", "Typer", "Typer", "Manager"]);
+  assertEquals(
+    prompts[2],
+    "Typer: Error: your message to agent Reviewer (correlation c2) was not delivered because the delegation chain Manager → Typer → Reviewer exceeds the maximum depth of 1. Do not send it again - finish the task with the information you have or report the problem.",
+  );
+  assertEquals(prompts[3].startsWith("Manager: Error: your request c1 to agent Typer was not answered"), true);
+});
+
+Deno.test("PromptScheduler - repeated messages are blocked and a request is stopped at the maximum number of prompts", async () => {
+  const scheduler = new PromptScheduler({ maxRepeats: 1, maxPrompts: 3 });
+  const prompts: string[] = [];
+  const [manager] = stubbedAgents(scheduler, ["Manager", "Typer"], (agent, prompt) => {
+    prompts.push(`${agent}: ${prompt}`);
+    if (agent === "Manager" && prompt === "Plan the tests") {
+      return 'AGENT:c1:Typer("Write the plan")\nAGENT:c2:Typer("Write the plan")';
+    }
+    return agent === "Typer" ? 'AGENT:c1:Manager("Working on it")' : "Nothing more to do.";
+  });
+
+  manager.prompt("Plan the tests");
+  await scheduler.processQueue();
+
+  // The reply of Typer would be the fourth prompt of the request
+  assertEquals(prompts.map((prompt) => prompt.split(":")[0]), ["Manager", "Typer", "Manager"]);
+  assertEquals(
+    prompts[2].startsWith(
+      "Manager: Error: your message to agent Typer (correlation c2) was not delivered because the same message was sent from Manager to Typer 2 times, the maximum is 1.",
+    ),
+    true,
+  );
+});
+
+Deno.test("PromptScheduler - a reply is matched to the open request it answers by its correlation ID", async () => {
+  const scheduler = new PromptScheduler({});
+  const prompts: string[] = [];
+  const [manager] = stubbedAgents(scheduler, ["Manager", "Typer"], (agent, prompt) => {
+    prompts.push(`${agent}: ${prompt}`);
+    if (agent === "Manager" && prompt === "Plan the tests") {
+      return 'AGENT:r1:Typer("Write the plan")';
+    }
+    return agent === "Typer" ? 'AGENT:c1:Manager("The plan is written")' : "Nothing more to do.";
+  });
+
+  manager.prompt("Plan the tests");
+  await scheduler.processQueue();
+
+  assertEquals(scheduler.getLedger().map((entry) => [entry.id, entry.requesterCorrelationId, entry.status]), [["c1", "r1", "answered"]]);
+  assertEquals(prompts.at(-1), "Manager: Reply from agent Typer to your request r1:\n\nThe plan is written");
+});
+
+Deno.test("PromptScheduler - the requester is told when its request times out", async () => {
+  const scheduler = new PromptScheduler({ requestTimeout: 50 });
+  const prompts: string[] = [];
+  const [manager] = stubbedAgents(scheduler, ["Manager", "Typer"], async (agent, prompt) => {
+    prompts.push(`${agent}: ${prompt}`);
+    if (agent === "Typer") {
+      await new Promise((resolve) => setTimeout(resolve, 300));
+    }
+    return agent === "Manager" && prompt === "Plan the tests" ? 'AGENT:r1:Typer("Write the plan")' : "Nothing more to do.";
+  });
+
+  manager.prompt("Plan the tests");
+  await scheduler.processQueue();
+
+  assertEquals(scheduler.getLedger().map((entry) => entry.status), ["timed_out"]);
+  assertEquals(prompts.at(-1)?.startsWith("Manager: Error: your request r1 to agent Typer timed out"), true);
+});
+
+Deno.test("PromptScheduler - a prompt cancelled during its tool calls stops the running command", async () => {
+  const scheduler = new PromptScheduler({ approvalPolicies: { Manager: { rules: [{ action: "allow", tool: "bash-executor-tool" }] } } });
+  const controller = new AbortController();
+  const [manager] = stubbedAgents(scheduler, ["Manager"], () => {
+    setTimeout(() => controller.abort(), 200);
+    return 'TOOL:t1:bash-executor-tool.execute("sleep 5; echo slept")\nTOOL:t2:file-system-tool.read("README.md")';
+  });
+
+  const finished: (boolean | undefined)[] = [];
+  scheduler.events.on("prompt:finished", ({ cancelled }) => finished.push(cancelled));
+
+  const started = Date.now();
+  manager.prompt("Plan the tests");
+  const cancelled = await scheduler.processQueue(controller.signal);
+
+  assertEquals(cancelled.map(({ item, inProgress }) => [item.agent.name, inProgress]), [["Manager", true]]);
+  assertEquals(finished, [true]);
+  assertEquals(Date.now() - started < 2000, true);
+});
+
+Deno.test("PromptScheduler - publishes the lifecycle of a prompt in the order it happens", async () => {
+  const scheduler = new PromptScheduler({});
+  const [manager] = stubbedAgents(
+    scheduler,
+    ["Manager"],
+    (_agent, prompt) => prompt === "Plan the tests" ? 'TOOL:t1:file-system-tool.read("README.md")' : "The plan is ready.\n\nTOOL:done",
+  );
+
+  const events: string[] = [];
+  const lifecycle = [
+    "prompt:enqueued",
+    "prompt:started",
+    "model:request",
+    "model:response",
+    "agent:response",
+    "tool:started",
+    "tool:finished",
+    "task:done",
+    "prompt:finished",
+  ] as const;
+  lifecycle.forEach((event) => scheduler.events.on(event, () => events.push(event)));
+
+  manager.prompt("Plan the tests");
+  await scheduler.processQueue();
+
+  const turn = ["prompt:started", "model:request", "model:response", "agent:response"];
+  assertEquals(events, [
+    "prompt:enqueued",
+    ...turn,
+    "tool:started",
+    "tool:finished",
+    "prompt:enqueued",
+    "prompt:finished",
+    ...turn,
+    "task:done",
+    "prompt:finished",
+  ]);
+});
+
+Deno.test("PromptScheduler - a request that goes over an agent's budget is stopped", async () => {
+  const scheduler = new PromptScheduler({ budget: { maxTokens: 100_000 }, agentBudgets: { Typer: { maxTokens: 1 } } });
+  const [manager] = stubbedAgents(scheduler, ["Manager", "Typer", "Reviewer"], (agent, prompt) => {
+    if (agent === "Manager" && prompt === "Plan the tests") {
+      return 'AGENT:r1:Typer("Write the plan")';
+    }
+    return agent === "Typer" ? 'AGENT:r2:Reviewer("Check the plan")' : "Nothing more to do.";
+  });
+
+  const errors: string[] = [];
+  const prompts: string[] = [];
+  scheduler.events.on("error", ({ message }) => errors.push(message));
+  scheduler.events.on("prompt:started", ({ item }) => prompts.push(item.agent.name));
+
+  manager.prompt("Plan the tests");
+  await scheduler.processQueue();
+
+  assertEquals(prompts, ["Manager", "Typer"]);
+  assertEquals(errors.length, 1);
+  assertEquals(/^Stopped request 1: agent Typer used \d+ tokens, exceeding the budget of 1 tokens$/.test(errors[0]), true);
+  assertEquals(scheduler.getUsage().forRequest(1).calls, 2);
+});
+
+Deno.test("PromptScheduler - temporary model errors are retried and other errors fail the prompt", async () => {
+  const scheduler = new PromptScheduler({ retryPolicies: { stub: { maxRetries: 3, initialDelay: 1, maxDelay: 1 } } });
+  const failures = [new ModelError("Overloaded", "stub", true, { status: 503 }), new ModelError("Bad request", "stub", false, { status: 400 })];
+  const [manager] = stubbedAgents(scheduler, ["Manager"], () => {
+    throw failures.shift();
+  });
+
+  const retries: string[] = [];
+  const errors: (string | undefined)[] = [];
+  scheduler.events.on("prompt:retrying", ({ retry, error }) => retries.push(`${retry}: ${error}`));
+  scheduler.events.on("prompt:finished", ({ error }) => errors.push(error));
+
+  manager.prompt("Plan the tests");
+  await scheduler.processQueue();
+
+  assertEquals(retries, ["1: Overloaded"]);
+  assertEquals(errors, ["Bad request"]);
+});
+
+Deno.test("PromptScheduler - an agent that asks the user is paused until the answer arrives while the other agents keep working", async () => {
+  const scheduler = new PromptScheduler({});
+  const timeline: string[] = [];
+  const [manager] = stubbedAgents(scheduler, ["Manager", "Typer"], (agent, prompt) => {
+    // The last line of a prompt is the message, after any explanation of where it came from
+    timeline.push(`${agent}: ${prompt.split("\n").at(-1)}`);
+    if (agent === "Manager" && prompt === "Plan the tests") {
+      return 'USER:q1("Which database should the tests use?")\nAGENT:c1:Typer("Write the schema")';
+    }
+    return agent === "Typer" ? 'AGENT:c1:Manager("The schema is written")' : "Noted.";
+  });
+  scheduler.setUserQuestionHandler(async ({ question }) => {
+    timeline.push(`User is asked: ${question}`);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    timeline.push("User answers");
+    return "SQLite";
+  });
+
+  manager.prompt("Plan the tests");
+  await scheduler.processQueue();
+
+  assertEquals(timeline, [
+    "Manager: Plan the tests",
+    "User is asked: Which database should the tests use?",
+    "Typer: Write the schema",
+    "User answers",
+    "Manager: The schema is written",
+    "Manager: SQLite",
+  ]);
+});
+
+Deno.test("PromptScheduler - a call approved always does not approve calls with other arguments that a rule asks about", async () => {
+  const scheduler = new PromptScheduler({
+    approvalPolicies: { Typer: { rules: [{ action: "ask", tool: "bash-executor-tool", args: "rm*" }], defaults: { high: "ask" } } },
+  });
+  const [typer] = stubbedAgents(scheduler, ["Typer"], () => "Nothing to do.");
+  const asked: string[] = [];
+  scheduler.setApprovalHandler(({ args }) => {
+    asked.push(args[0] as string);
+    return Promise.resolve(asked.length === 1 ? { approved: true, always: true } : { approved: false, reason: "no" });
+  });
+  const trace = { requestId: 1, ancestry: [] };
+  const run = (command: string) =>
+    scheduler.approveToolCall(
+      typer,
+      { tool: "bash-executor-tool", correlationId: "t1", function: "execute", args: [`"${command}"`] },
+      [command],
+      "high",
+      trace,
+    );
+
+  assertEquals(await run("git status"), undefined);
+  assertEquals(await run("git status"), undefined);
+  assertEquals(await run("rm -rf src"), "the user rejected it: no");
+  assertEquals(asked, ["git status", "rm -rf src"]);
+});
+
+Deno.test("PromptScheduler - an agent spawns a helper, delegates to it and retires it", async () => {
+  const scheduler = new PromptScheduler({});
+  const respond = (agent: string, prompt: string) => {
+    if (agent === "Reviewer") {
+      return 'AGENT:c1:Manager("The plan looks good")';
+    }
+    if (agent === "Manager" && prompt === "Plan the tests") {
+      return 'TOOL:t1:team.spawn("Reviewer", "Reviews plans", ["reviewing"])\nTOOL:t2:team.spawn("Typer", "Writes code", [])\nTOOL:t3:team.retire("Typer")';
+    }
+    if (agent === "Manager" && prompt.includes('"correlationId":"t1"')) {
+      return 'AGENT:r1:Reviewer("Review the plan")';
+    }
+    return agent === "Manager" && prompt.endsWith("The plan looks good") ? 'TOOL:t4:team.retire("Reviewer")' : "Done.";
+  };
+  const [manager] = stubbedAgents(scheduler, ["Manager", "Typer"], respond);
+
+  const results: string[] = [];
+  scheduler.events.on("agent:spawned", ({ agent }) => agent.model = new StubModel(agent.name, respond));
+  scheduler.events.on("tool:finished", ({ call, result }) => results.push(`${call.correlationId}: ${result.content}`));
+
+  manager.prompt("Plan the tests");
+  await scheduler.processQueue();
+
+  assertEquals(results, [
+    't1: Spawned agent Reviewer using model llama3.2. Send it its task with AGENT:<unique_id>:Reviewer("...")',
+    "t2: Error spawning agent: there is already an agent called Typer",
+    "t3: Error retiring agent: Typer is not an agent spawned by Manager",
+    "t4: Retired agent Reviewer",
+  ]);
+  assertEquals(scheduler.getAgents().map((agent) => agent.name), ["Manager", "Typer"]);
+  assertEquals(manager.awareOf, ["Typer"]);
+});
+
+Deno.test("PromptScheduler - agents watching a blackboard prefix are told when another agent changes an entry", async () => {
+  const scheduler = new PromptScheduler({});
+  const [manager] = stubbedAgents(
+    scheduler,
+    ["Manager", "Reviewer", "Typer"],
+    (agent, prompt) =>
+      agent === "Manager" && prompt === "Plan the tests" ? 'TOOL:t1:board.put("plan/tests", "write the tests")\n\nTOOL:done' : "Noted.\n\nTOOL:done",
+  );
+  scheduler.board.watch("Reviewer", "plan/");
+  scheduler.board.watch("Manager", "plan/");
+  scheduler.board.watch("Typer", "notes/");
+
+  const prompts: string[] = [];
+  scheduler.events.on("model:request", ({ agent, prompt }) => prompts.push(`${agent.name}: ${prompt}`));
+
+  manager.prompt("Plan the tests");
+  assertEquals(await scheduler.processQueue(), []);
+
+  assertEquals(prompts, [
+    "Manager: Plan the tests",
+    'Reviewer: Blackboard update: Manager changed "plan/tests" (version 1). Use board.get("plan/tests") to read it.',
+  ]);
+});
+
+Deno.test("PromptScheduler - a transcript records the events of a session in the order they happen", async () => {
+  const file = await Deno.makeTempFile({ suffix: ".jsonl" });
+  const scheduler = new PromptScheduler({});
+  const [manager] = stubbedAgents(
+    scheduler,
+    ["Manager", "Typer"],
+    (agent, prompt) => agent === "Typer" ? 'AGENT:c1:Manager("Written")' : prompt === "Write the tests" ? 'AGENT:c1:Typer("Write them")' : "Done.",
+  );
+  const transcript = new Transcript(file);
+  const stop = transcript.record(scheduler.events);
+
+  manager.prompt("Write the tests");
+  await scheduler.processQueue();
+  stop();
+  await transcript.flush();
+
+  const records = await readTranscript(file);
+  const delegations = records.flatMap((record) => record.event === "agent:delegation" ? [[record.data.from, record.data.to, record.data.message]] : []);
+  assertEquals(delegations, [["Manager", "Typer", "Write them"], ["Typer", "Manager", "Written"]]);
+  assertEquals(records.filter((record) => record.event === "prompt:finished").length, 3);
+  assertEquals(records.every((record, index) => index === 0 || record.time >= records[index - 1].time), true);
+  await Deno.remove(file);
+});
+
+Deno.test("PromptScheduler - a delegation with a tool call runs to completion", async () => {
+  const fixture = await writeFixture({
+    responses: [
+      { agent: "Manager", turn: 1, response: 'Typer will write down the plan.\n\nAGENT:c1:Typer("Put the plan on the board")' },
+      { agent: "Typer", turn: 1, response: 'TOOL:t1:board.put("plan", "write the tests")' },
+      { agent: "Typer", prompt: "tool_responses", response: 'AGENT:c1:Manager("The plan is on the board")' },
+      { agent: "Manager", prompt: "plan is on the board", response: "Typer has written down the plan.\n\nTOOL:done" },
+    ],
+  });
+  const scheduler = new PromptScheduler({});
+  const model = `scripted:${fixture}`;
+  const manager = new Agent("Manager", "Manages the team", ["planning"], model, undefined, ["Typer"], scheduler);
+  new Agent("Typer", "Writes code", ["coding"], model, undefined, ["Manager"], scheduler);
+
+  const delegations: string[] = [];
+  const done: string[] = [];
+  scheduler.events.on("agent:delegation", ({ from, to, reply }) => delegations.push(`${from.name} ${reply ? "replies to" : "asks"} ${to.name}`));
+  scheduler.events.on("task:done", ({ agent }) => done.push(agent.name));
+
+  manager.prompt("Plan the tests");
+  assertEquals(await scheduler.processQueue(), []);
+
+  assertEquals(delegations, ["Manager asks Typer", "Typer replies to Manager"]);
+  assertEquals(scheduler.board.get("plan")?.value, "write the tests");
+  assertEquals(done, ["Manager"]);
+  await Deno.remove(fixture);
+});
+
+Deno.test("PromptScheduler - a prompt without a scripted response fails", async () => {
+  const fixture = await writeFixture({ responses: [{ agent: "Typer", response: "Hello" }] });
+  const scheduler = new PromptScheduler({});
+  const manager = new Agent("Manager", "Manages the team", [], `scripted:${fixture}`, undefined, [], scheduler);
+
+  const errors: string[] = [];
+  scheduler.events.on("prompt:finished", ({ error }) => error && errors.push(error));
+
+  manager.prompt("Plan the tests");
+  await scheduler.processQueue();
+
+  assertEquals(errors.length, 1);
+  assertEquals(errors[0].includes("no response"), true);
+  await Deno.remove(fixture);
+});
+
+Deno.test("PromptScheduler - auto-dispatch sends tasks to their assignees once their dependencies are done", async () => {
+  const fixture = await writeFixture({
+    responses: [
+      {
+        agent: "Planner",
+        turn: 1,
+        response: 'TOOL:t1:tasks.create("Write the parser", "Typer")\nTOOL:t2:tasks.create("Test the parser", "Typer", [1], ["All tests pass"])',
+      },
+      { agent: "Planner", response: "The plan is on the task board." },
+      { agent: "Typer", prompt: "Task 1 is ready", response: 'TOOL:t3:tasks.complete(1, "Parser written")' },
+      { agent: "Typer", prompt: "Task 2 is ready[^]*All tests pass", response: 'TOOL:t4:tasks.complete(2, "Parser tested")' },
+      { agent: "Typer", response: "Done." },
+    ],
+  });
+  const scheduler = new PromptScheduler({ autoDispatch: true });
+  const model = `scripted:${fixture}`;
+  const planner = new Agent("Planner", "Plans the work", ["planning"], model, undefined, ["Typer"], scheduler);
+  new Agent("Typer", "Writes code", ["coding"], model, undefined, ["Planner"], scheduler);
+
+  planner.prompt("Plan a parser");
+  await scheduler.processQueue();
+
+  assertEquals(scheduler.tasks.list().map((task) => [task.id, task.status, task.notes]), [
+    [1, "done", ["Parser written"]],
+    [2, "done", ["Parser tested"]],
+  ]);
+  await Deno.remove(fixture);
+});
+
+Deno.test("PromptScheduler - agents using native tool use call tools and reply with tool calls", async () => {
+  const fixture = await writeFixture({
+    responses: [
+      {
+        agent: "Manager",
+        turn: 1,
+        response: "Typer will write down the plan.",
+        tool_calls: [{ name: "send_message", input: { agent: "Typer", message: "Put the plan on the board" } }],
+      },
+      { agent: "Typer", turn: 1, response: "", tool_calls: [{ id: "t1", name: "board__put", input: { key: "plan", value: "write the tests" } }] },
+      {
+        agent: "Typer",
+        prompt: '"correlationId":"t1","success":true',
+        response: "",
+        tool_calls: [{ name: "send_message", input: { agent: "Manager", message: "The plan is on the board", correlation: "Manager-1-1" } }],
+      },
+      { agent: "Manager", prompt: "plan is on the board", response: "Typer has written down the plan.", tool_calls: [{ name: "done" }] },
+    ],
+  });
+  const scheduler = new PromptScheduler({});
+  const model = `scripted:${fixture}`;
+  const manager = new Agent("Manager", "Manages the team", ["planning"], model, undefined, ["Typer"], scheduler);
+  const typer = new Agent("Typer", "Writes code", ["coding"], model, undefined, ["Manager"], scheduler);
+  manager.toolProtocol = "native";
+  typer.toolProtocol = "native";
+
+  const delegations: string[] = [];
+  const done: string[] = [];
+  scheduler.events.on("agent:delegation", ({ from, to, reply }) => delegations.push(`${from.name} ${reply ? "replies to" : "asks"} ${to.name}`));
+  scheduler.events.on("task:done", ({ agent }) => done.push(agent.name));
+
+  manager.prompt("Plan the tests");
+  assertEquals(await scheduler.processQueue(), []);
+
+  assertEquals(delegations, ["Manager asks Typer", "Typer replies to Manager"]);
+  assertEquals(scheduler.board.get("plan")?.value, "write the tests");
+  assertEquals(done, ["Manager"]);
+  await Deno.remove(fixture);
+});
+
+Deno.test("PromptScheduler - an agent whose model is unreachable switches to its fallback model", async () => {
+  const fixture = await writeFixture({ responses: [{ agent: "Manager", prompt: "Plan the tests", response: "The plan is ready.\n\nTOOL:done" }] });
+  registerModel(openAIModel("offline", "A server that is not running", { baseUrl: "http://127.0.0.1:1/v1" }));
+  const scheduler = new PromptScheduler({ retryPolicies: { openai: { maxRetries: 0 } } });
+  const manager = new Agent("Manager", "Manages the team", [], "offline", undefined, [], scheduler);
+  manager.fallbackModels = ["unknown-model", `scripted:${fixture}`];
+
+  const fallbacks: string[] = [];
+  const done: string[] = [];
+  scheduler.events.on("model:fallback", ({ from, to }) => fallbacks.push(`${from} -> ${to}`));
+  scheduler.events.on("task:done", ({ agent }) => done.push(agent.name));
+
+  manager.prompt("Plan the tests");
+  assertEquals(await scheduler.processQueue(), []);
+
+  assertEquals(fallbacks, [`offline -> scripted:${fixture}`]);
+  assertEquals(done, ["Manager"]);
+  assertEquals([manager.modelName, manager.initialModelName, manager.fallbackModels], [`scripted:${fixture}`, "offline", []]);
+  await Deno.remove(fixture);
+});
@@ -1,15 +1,188 @@
-import { Agent, type PromptQueueItem } from "./index.ts";
-import { debugPrefix, failSpinner, info, startSpinner, stopSpinner } from "../lib/cli.ts";
-import { ToolResponses } from "../model/index.ts";
-import chalk from "npm:chalk";
+import { Agent, type PromptQueueItem, type PromptTrace } from "./index.ts";
+import { type AgentCall, type UserCall } from "./response-parser.ts";
+import { CorrelationLedger, type LedgerEntry } from "./ledger.ts";
+import { debugPrefix } from "../lib/cli.ts";
+import { isUnavailable, ModelError, modelPricing, type TokenUsage, ToolResponses } from "../model/index.ts";
+import { EventBus, type SchedulerEvents } from "./events.ts";
+import { type Budget, budgetExceeded, usageCost, UsageTracker } from "./usage.ts";
+import { backoffDelay, DEFAULT_RETRY_POLICY, type RetryPolicy } from "./retry.ts";
+import { type ApprovalPolicy, evaluatePolicy, type ToolApprovalHandler } from "./approval.ts";
+import { type RiskLevel } from "../tools/index.ts";
+import { type FunctionCall } from "./response-parser.ts";
+import { Blackboard, type BoardEntry } from "./blackboard.ts";
+import { type Task, TaskBoard } from "./tasks.ts";
+
+export const DEFAULT_CONCURRENCY = 4;
+export const DEFAULT_MAX_DEPTH = 6;
+export const DEFAULT_MAX_PROMPTS = 200;
+export const DEFAULT_MAX_REPEATS = 3;
+export const DEFAULT_REQUEST_TIMEOUT = 10 * 60 * 1000;
+export const DEFAULT_MAX_SPAWNED = 5;
+
+export interface SchedulerOptions {
+  /** Maximum number of agents processing a prompt at the same time */
+  concurrency?: number;
+  /** Maximum number of unanswered delegations in a chain */
+  maxDepth?: number;
+  /** Maximum number of prompts scheduled while handling a single user request */
+  maxPrompts?: number;
+  /** Maximum number of times the same message may be sent from one agent to another within a user request */
+  maxRepeats?: number;
+  /** Milliseconds to wait for a reply to an agent request before notifying the requester */
+  requestTimeout?: number;
+  /** Maximum number of agents the agents may spawn while handling a single user request */
+  maxSpawned?: number;
+  /** Send the tasks on the task board to their assignees as soon as their dependencies are done */
+  autoDispatch?: boolean;
+  /** Stream the responses of the agents' models, publishing each piece as a model:token event */
+  streaming?: boolean;
+  /** The tokens and cost a single user request may use */
+  budget?: Budget;
+  /** The tokens and cost each agent may use within a single user request, keyed by agent name */
+  agentBudgets?: Record<string, Budget>;
+  /** How failed model calls are retried, keyed by provider - the defaults apply to anything not given */
+  retryPolicies?: Record<string, Partial<RetryPolicy>>;
+  /** Which tool calls each agent may make without asking the user, keyed by agent name */
+  approvalPolicies?: Record<string, ApprovalPolicy>;
+}
+
+/**
+ * A prompt that was dropped when the work was cancelled
+ */
+export interface CancelledPrompt {
+  item: PromptQueueItem;
+  /** Whether the agent was already working on the prompt, rather than it waiting in a queue */
+  inProgress: boolean;
+}
 
 /**
- * PromptScheduler manages a FIFO queue of prompts for different agents
- * This enables agent-to-agent communication and ensures orderly processing of prompts
+ * A question from an agent to the user
+ */
+export interface UserQuestion {
+  agent: Agent;
+  /** Correlation ID the agent used in its USER: call */
+  correlationId: string;
+  question: string;
+  trace: PromptTrace;
+}
+
+/**
+ * Puts a question to the user and resolves with the answer, or rejects when there is no answer
+ */
+export type UserQuestionHandler = (question: UserQuestion, signal?: AbortSignal) => Promise<string>;
+
+/**
+ * Bookkeeping for a single user request, used to enforce the delegation limits
+ */
+interface RequestStats {
+  prompts: number;
+  maxDepth: number;
+  messages: Map<string, number>;
+  violations: Map<string, number>;
+  spawned: number;
+  halted: boolean;
+}
+
+/**
+ * PromptScheduler manages a FIFO queue of prompts for each agent
+ * Each agent handles one prompt at a time while different agents run in parallel, up to the concurrency limit
  */
 export class PromptScheduler {
-  private promptQueue: PromptQueueItem[] = [];
+  /** Lifecycle events of the scheduler and its agents, for observers such as the console output */
+  public readonly events = new EventBus<SchedulerEvents>();
+  /** Shared by all agents of the session */
+  public readonly board = new Blackboard();
+  /** The planned tasks of the project */
+  public readonly tasks = new TaskBoard();
+  private agentQueues: Map<string, PromptQueueItem[]> = new Map();
   private agentRegistry: Map<string, Agent> = new Map();
+  private activeAgents: Set<string> = new Set();
+  private requests: Map<number, RequestStats> = new Map();
+  private concurrency = DEFAULT_CONCURRENCY;
+  private maxDepth = DEFAULT_MAX_DEPTH;
+  private maxPrompts = DEFAULT_MAX_PROMPTS;
+  private maxRepeats = DEFAULT_MAX_REPEATS;
+  private requestTimeout = DEFAULT_REQUEST_TIMEOUT;
+  private maxSpawned = DEFAULT_MAX_SPAWNED;
+  private autoDispatch = false;
+  private streaming_ = false;
+  // The tasks that were sent to or claimed by their assignees in this session
+  private dispatchedTasks: Set<number> = new Set();
+  private budget: Budget | undefined;
+  private agentBudgets: Map<string, Budget> = new Map();
+  private retryPolicies: Map<string, RetryPolicy> = new Map();
+  private userQuestionHandler: UserQuestionHandler | undefined;
+  private approvalPolicies: Map<string, ApprovalPolicy> = new Map();
+  private approvalHandler: ToolApprovalHandler | undefined;
+  private alwaysApproved: Set<string> = new Set();
+  private questions: { question: UserQuestion; task?: Promise<void> }[] = [];
+  private pausedAgents: Map<string, number> = new Map();
+  private ledger = new CorrelationLedger();
+  private usage = new UsageTracker();
+  private nextSequence = 0;
+  private nextRequestId = 1;
+
+  constructor(options: SchedulerOptions = {}) {
+    this.configure(options);
+
+    this.board.events.on("entry:changed", ({ entry, trace }) => this.notifyWatchers(entry, trace));
+    this.tasks.events.on("task:changed", ({ task, trace }) => this.taskChanged(task, trace));
+  }
+
+  /**
+   * Apply scheduler options, leaving any option that is not given unchanged
+   * @throws When the concurrency is not a whole number, with which no prompt would ever run
+   */
+  public configure(options: SchedulerOptions): void {
+    if (options.concurrency !== undefined) {
+      if (!Number.isInteger(options.concurrency)) {
+        throw new Error(`Invalid concurrency: ${options.concurrency} (expected a whole number)`);
+      }
+      this.concurrency = Math.max(1, options.concurrency);
+    }
+    if (options.maxDepth !== undefined) {
+      this.maxDepth = Math.max(1, options.maxDepth);
+    }
+    if (options.maxPrompts !== undefined) {
+      this.maxPrompts = Math.max(1, options.maxPrompts);
+    }
+    if (options.maxRepeats !== undefined) {
+      this.maxRepeats = Math.max(1, options.maxRepeats);
+    }
+    if (options.requestTimeout !== undefined) {
+      this.requestTimeout = Math.max(0, options.requestTimeout);
+    }
+    if (options.maxSpawned !== undefined) {
+      this.maxSpawned = Math.max(0, options.maxSpawned);
+    }
+    if (options.autoDispatch !== undefined) {
+      this.autoDispatch = options.autoDispatch;
+    }
+    if (options.streaming !== undefined) {
+      this.streaming_ = options.streaming;
+    }
+    if (options.budget !== undefined) {
+      this.budget = options.budget;
+    }
+    if (options.agentBudgets !== undefined) {
+      this.agentBudgets = new Map(Object.entries(options.agentBudgets));
+    }
+    if (options.approvalPolicies !== undefined) {
+      this.approvalPolicies = new Map(Object.entries(options.approvalPolicies));
+    }
+    if (options.retryPolicies !== undefined) {
+      this.retryPolicies = new Map(
+        Object.entries(options.retryPolicies).map(([provider, policy]) => [provider, { ...DEFAULT_RETRY_POLICY, ...definedValues(policy) }]),
+      );
+    }
+  }
+
+  /**
+   * Whether the agents' models stream their responses
+   */
+  public get streaming(): boolean {
+    return this.streaming_;
+  }
 
   /**
    * Register an agent with the scheduler so it can receive prompts
@@ -19,6 +192,132 @@ export class PromptScheduler {
     debugPrefix("Scheduler", `Registered agent: ${agent.name}`);
   }
 
+  /**
+   * Check whether an agent may be spawned while handling a request
+   * @returns Why it may not, or undefined when it may
+   */
+  public spawnRefusal(name: string, trace: PromptTrace): string | undefined {
+    if (this.agentRegistry.has(name)) {
+      return `there is already an agent called ${name}`;
+    }
+
+    const stats = this.requestStats(trace.requestId);
+    if (stats.spawned >= this.maxSpawned) {
+      const violation = `the request reached the maximum of ${this.maxSpawned} spawned agents`;
+      this.recordViolation(stats, violation);
+      return violation;
+    }
+    return undefined;
+  }
+
+  /**
+   * Record an agent spawned by another agent
+   * The spawned agent inherits the approval policy and the budget of its parent, so spawning can't be used to get around them.
+   */
+  public recordSpawn(agent: Agent, parent: Agent, trace: PromptTrace): void {
+    this.requestStats(trace.requestId).spawned++;
+
+    const approvalPolicy = this.approvalPolicies.get(parent.name);
+    if (approvalPolicy) {
+      this.approvalPolicies.set(agent.name, approvalPolicy);
+    }
+    const budget = this.agentBudgets.get(parent.name);
+    if (budget) {
+      this.agentBudgets.set(agent.name, budget);
+    }
+
+    this.events.emit("agent:spawned", { agent, parent, trace });
+  }
+
+  /**
+   * Remove a spawned agent from the scheduler once it has no work left
+   * @returns Why the agent can't be retired yet, or undefined when it was retired
+   */
+  public retireAgent(agent: Agent): string | undefined {
+    const name = agent.name;
+    if (this.getAgents().some((other) => other.parent === name)) {
+      return `${name} has spawned agents of its own, retire those first`;
+    }
+
+    const busy = this.activeAgents.has(name) || (this.agentQueues.get(name)?.length ?? 0) > 0 || this.pausedAgents.has(name) ||
+      this.ledger.pending().some((entry) => entry.from === name || entry.to === name);
+    if (busy) {
+      return `${name} still has work in progress, wait for its reply before retiring it`;
+    }
+
+    this.agentRegistry.delete(name);
+    this.agentQueues.delete(name);
+    this.board.unwatch(name);
+    this.approvalPolicies.delete(name);
+    this.agentBudgets.delete(name);
+    debugPrefix("Scheduler", `Retired agent: ${name}`);
+
+    this.events.emit("agent:retired", { agent, parent: agent.parent });
+    return undefined;
+  }
+
+  /**
+   * Tell the agents watching a blackboard key that another agent changed it
+   * Changes made by the user are not announced, so that editing the board doesn't start new work.
+   */
+  private notifyWatchers(entry: BoardEntry, trace: PromptTrace | undefined): void {
+    if (!trace || this.requests.get(trace.requestId)?.halted) {
+      return;
+    }
+
+    for (const name of this.board.watchers(entry.key)) {
+      const agent = this.agentRegistry.get(name);
+      if (agent && name !== entry.author) {
+        this.schedulePrompt(
+          agent,
+          `Blackboard update: ${entry.author} changed "${entry.key}" (version ${entry.version}). Use board.get("${entry.key}") to read it.`,
+          undefined,
+          undefined,
+          trace,
+        );
+      }
+    }
+  }
+
+  /**
+   * Send the ready tasks on the task board to their assignees, skipping those already sent or claimed in this session
+   * @param trace The request the prompts belong to, a new user request is started when omitted
+   * @returns The tasks that were sent
+   */
+  public dispatchReadyTasks(trace?: PromptTrace): Task[] {
+    const tasks = this.tasks.ready().filter((task) => !this.dispatchedTasks.has(task.id) && this.agentRegistry.has(task.assignee!));
+    if (tasks.length === 0) {
+      return [];
+    }
+
+    const dispatchTrace = trace ?? { requestId: this.nextRequestId++, ancestry: [] };
+    for (const task of tasks) {
+      this.dispatchedTasks.add(task.id);
+      const criteria = task.criteria.length > 0 ? `\nAcceptance criteria:\n${task.criteria.map((criterion) => `- ${criterion}`).join("\n")}` : "";
+      this.schedulePrompt(
+        task.assignee!,
+        `Task ${task.id} is ready for you: ${task.title}${criteria}\nClaim it with tasks.claim(${task.id}) and when it is done, complete it with tasks.complete(${task.id}, "summary of the result").`,
+        undefined,
+        undefined,
+        dispatchTrace,
+      );
+    }
+    return tasks;
+  }
+
+  /**
+   * Keep track of the tasks that are being worked on, and dispatch the tasks that became ready when auto-dispatch is on
+   * Changes made by the user don't dispatch tasks, so that editing the board doesn't start new work.
+   */
+  private taskChanged(task: Task, trace: PromptTrace | undefined): void {
+    if (task.status === "in_progress") {
+      this.dispatchedTasks.add(task.id);
+    }
+    if (this.autoDispatch && trace && !this.requests.get(trace.requestId)?.halted) {
+      this.dispatchReadyTasks(trace);
+    }
+  }
+
   /**
    * Schedule a prompt to be processed by a specific agent
    *
@@ -26,83 +325,285 @@ export class PromptScheduler {
    * @param prompt - The message to send
    * @param correlationId - ID to track this prompt through the system
    * @param sourceAgent - The agent that sent this prompt (if applicable)
-   * @param responseHandler - Optional callback for handling the response
+   * @param trace - The request and delegation chain the prompt belongs to, a new user request is started when omitted
    */
   public schedulePrompt(
     agent: Agent | string,
     prompt: string | ToolResponses,
     correlationId: string | undefined = undefined,
     sourceAgent: Agent | undefined = undefined,
+    trace: PromptTrace = { requestId: this.nextRequestId++, ancestry: [] },
   ): void {
     if (typeof agent === "string") {
       // If agent is a string, find the agent by name
       const foundAgent = this.agentRegistry.get(agent);
       if (!foundAgent) {
-        info(`Agent not found: ${agent}`);
+        this.events.emit("error", { message: `Agent not found: ${agent}`, agent: sourceAgent, trace });
         if (sourceAgent != undefined) {
-          this.schedulePrompt(sourceAgent, `Agent not found: ${agent}, correlationId: ${correlationId}`, correlationId);
+          this.schedulePrompt(sourceAgent, `Agent not found: ${agent}, correlationId: ${correlationId}`, correlationId, undefined, trace);
         }
       } else {
-        this.promptQueue.push({ agent: foundAgent, prompt, sourceAgent, correlationId });
+        this.enqueue({ agent: foundAgent, prompt, sourceAgent, correlationId, trace });
       }
     } else {
-      // Add prompt to queue
-      this.promptQueue.push({ agent, prompt, sourceAgent, correlationId });
+      this.enqueue({ agent, prompt, sourceAgent, correlationId, trace });
     }
   }
 
   /**
-   * Process the prompt queue in FIFO order
-   * This is the main loop that handles all agent interactions
+   * Schedule a message from one agent to another
+   * A message that answers an open request in the ledger is delivered as a reply and continues the requester's chain,
+   * any other message opens a new request with a scheduler assigned correlation ID, subject to the delegation limits.
+   *
+   * @param sourceAgent - The agent sending the message
+   * @param agentCall - The parsed AGENT: call
+   * @param trace - The trace of the prompt the source agent is handling
    */
-  public async processQueue(): Promise<void> {
-    // Terminal width estimation (or default to 80 if can't be determined)
-    const terminalWidth = Deno.isatty(Deno.stdout.rid) ? (Deno.consoleSize?.().columns || 80) : 80;
-    const maxPromptLength = Math.floor(terminalWidth * 2 / 3);
+  public scheduleDelegation(sourceAgent: Agent, agentCall: AgentCall, trace: PromptTrace): void {
+    if (this.requestStats(trace.requestId).halted) {
+      debugPrefix("Scheduler", `Dropped message from ${sourceAgent.name} to ${agentCall.name}: request ${trace.requestId} has been stopped`);
+      return;
+    }
 
-    while (this.promptQueue.length > 0) {
-      // Get the next prompt from the queue
-      const nextPrompt = this.promptQueue.shift()!;
+    const request = this.ledger.findReply(sourceAgent.name, agentCall.name, agentCall.correlationId);
+    if (request) {
+      this.deliverReply(request, sourceAgent, agentCall.message);
+      return;
+    }
 
-      try {
-        // Get agent name and extract prompt text for display
-        const agentName = nextPrompt.agent.name;
-        const sourceInfo = nextPrompt.sourceAgent ? ` (from ${nextPrompt.sourceAgent.name})` : "";
-
-        // Extract the first line of the prompt and limit its length
-        let promptText = "";
-        if (typeof nextPrompt.prompt === "string") {
-          // Get first line only
-          promptText = nextPrompt.prompt.split("\n")[0].trim();
-          // Truncate if too long
-          if (promptText.length > maxPromptLength) {
-            promptText = promptText.substring(0, maxPromptLength) + "...";
-          }
-        } else if (nextPrompt.prompt.type === "tool_responses") {
-          promptText = "Processing tool responses...";
+    const targetAgent = this.agentRegistry.get(agentCall.name);
+    if (!targetAgent) {
+      this.events.emit("error", { message: `Agent not found: ${agentCall.name}`, agent: sourceAgent, trace });
+      this.schedulePrompt(sourceAgent, `Agent not found: ${agentCall.name}, correlationId: ${agentCall.correlationId}`, undefined, undefined, trace);
+      return;
+    }
+
+    const stats = this.requestStats(trace.requestId);
+    const messageKey = `${sourceAgent.name}\u0000${agentCall.name}\u0000${agentCall.message}`;
+    const repeats = (stats.messages.get(messageKey) || 0) + 1;
+    stats.messages.set(messageKey, repeats);
+
+    let violation: string | undefined;
+    if (trace.ancestry.length + 1 > this.maxDepth) {
+      const chain = [...trace.ancestry.map((frame) => frame.agent), sourceAgent.name, agentCall.name].join(" → ");
+      violation = `the delegation chain ${chain} exceeds the maximum depth of ${this.maxDepth}`;
+    } else if (repeats > this.maxRepeats) {
+      violation = `the same message was sent from ${sourceAgent.name} to ${agentCall.name} ${repeats} times, the maximum is ${this.maxRepeats}`;
+    }
+
+    if (violation) {
+      this.recordViolation(stats, violation);
+      this.events.emit("error", { message: `Delegation from ${sourceAgent.name} to ${agentCall.name} blocked: ${violation}`, agent: sourceAgent, trace });
+      this.schedulePrompt(
+        sourceAgent,
+        `Error: your message to agent ${agentCall.name} (correlation ${agentCall.correlationId}) was not delivered because ${violation}. Do not send it again - finish the task with the information you have or report the problem.`,
+        undefined,
+        undefined,
+        trace,
+      );
+      return;
+    }
+
+    const entry = this.ledger.open(sourceAgent.name, agentCall.name, agentCall.correlationId, agentCall.message, trace);
+    const ancestry = [...trace.ancestry, { agent: sourceAgent.name, correlationId: entry.id }];
+    const delegatedTrace = { requestId: trace.requestId, ancestry };
+
+    this.events.emit("agent:delegation", {
+      from: sourceAgent,
+      to: targetAgent,
+      message: agentCall.message,
+      correlationId: entry.id,
+      reply: false,
+      trace: delegatedTrace,
+    });
+    this.schedulePrompt(targetAgent, agentCall.message, entry.id, sourceAgent, delegatedTrace);
+  }
+
+  /**
+   * Set how the agents' questions are put to the user - without a handler questions are answered with an error
+   */
+  public setUserQuestionHandler(handler: UserQuestionHandler | undefined): void {
+    this.userQuestionHandler = handler;
+  }
+
+  /**
+   * Set how tool calls that need approval are put to the user - without a handler they are rejected
+   */
+  public setApprovalHandler(handler: ToolApprovalHandler | undefined): void {
+    this.approvalHandler = handler;
+  }
+
+  /**
+   * Check a tool call against the agent's approval policy, asking the user when the policy says so
+   * A call the user approved always is allowed for the rest of the session, for the same agent, tool, function and arguments.
+   *
+   * @param agent - The agent making the call
+   * @param call - The parsed TOOL: call
+   * @param args - The evaluated arguments of the call
+   * @param risk - The risk level of the tool function
+   * @param trace - The trace of the prompt the agent is handling
+   * @param signal - Cancels waiting for the user
+   * @returns undefined when the call may go ahead, otherwise why it may not
+   */
+  public async approveToolCall(
+    agent: Agent,
+    call: FunctionCall,
+    args: unknown[],
+    risk: RiskLevel,
+    trace: PromptTrace,
+    signal?: AbortSignal,
+  ): Promise<string | undefined> {
+    const action = evaluatePolicy(this.approvalPolicies.get(agent.name), { tool: call.tool, function: call.function, args, risk });
+    // Only the exact call is approved always, so that it can't stand in for calls that a more specific rule asks about
+    const approvalKey = `${agent.name}\u0000${call.tool}\u0000${call.function}\u0000${JSON.stringify(args)}`;
+
+    let refusal: string | undefined;
+    if (action === "deny") {
+      refusal = "the approval policy does not allow this call";
+    } else if (action === "ask" && !this.alwaysApproved.has(approvalKey)) {
+      if (!this.approvalHandler) {
+        refusal = "there is no user to approve it";
+      } else {
+        const answer = await this.approvalHandler({ agent, call, args, risk, trace }, signal);
+        if (!answer.approved) {
+          refusal = `the user rejected it: ${answer.reason}`;
+        } else if (answer.always) {
+          this.alwaysApproved.add(approvalKey);
         }
+      }
+    }
 
-        // Format the spinner text with the agent name in light grey
-        const spinnerText = `${chalk.gray.bold(agentName)}${chalk.gray(sourceInfo)}: ${chalk.gray(promptText)}`;
+    this.events.emit("tool:approval", { agent, call, action, approved: refusal === undefined, reason: refusal, trace });
+    return refusal;
+  }
 
-        // Start spinner with agent name and prompt preview
-        startSpinner(spinnerText);
+  /**
+   * Queue a question from an agent for the user
+   * The agent is paused until the answer arrives as a reply, while the other agents carry on.
+   *
+   * @param agent - The agent asking the question
+   * @param userCall - The parsed USER: call
+   * @param trace - The trace of the prompt the agent is handling
+   */
+  public askUser(agent: Agent, userCall: UserCall, trace: PromptTrace): void {
+    if (this.requestStats(trace.requestId).halted) {
+      debugPrefix("Scheduler", `Dropped question from ${agent.name}: request ${trace.requestId} has been stopped`);
+      return;
+    }
 
-        // Process the prompt with the target agent
-        await nextPrompt.agent.handlePrompt(nextPrompt.prompt, nextPrompt.correlationId, nextPrompt.sourceAgent);
+    const question = { agent, correlationId: userCall.correlationId, question: userCall.question, trace };
+    this.questions.push({ question });
+    this.pausedAgents.set(agent.name, (this.pausedAgents.get(agent.name) ?? 0) + 1);
+    this.events.emit("user:question", { question });
+  }
 
-        // Stop spinner on successful completion
-        stopSpinner();
-      } catch (error) {
-        const errorMessage = (error instanceof Error) ? error.message : String(error);
+  /**
+   * Mark an agent's task as complete after it signalled TOOL:done()
+   * When the task was requested by another agent that has not had a reply, the agent's final content is sent back as the reply.
+   *
+   * @param agent - The agent that completed its task
+   * @param content - The content of the agent's final response
+   * @param trace - The trace of the prompt the agent was handling
+   */
+  public completeTask(agent: Agent, content: string, trace: PromptTrace): void {
+    const frame = trace.ancestry.at(-1);
+    const entry = frame && this.ledger.get(frame.correlationId);
+    if (entry?.status === "pending" && entry.to === agent.name) {
+      const message = content.replace("[Task completed]", "").trim() || "Task completed";
+      this.deliverReply(entry, agent, message);
+    }
+
+    this.events.emit("task:done", { agent, content, trace });
+  }
+
+  /**
+   * Record the tokens used by a model call, stopping the user request when it takes the request or the agent over budget
+   *
+   * @param agent - The agent that made the call
+   * @param model - The name of the model, used to find its pricing
+   * @param usage - The tokens reported by the model
+   * @param trace - The trace of the prompt the agent is handling
+   */
+  public recordUsage(agent: Agent, model: string, usage: TokenUsage, trace: PromptTrace): void {
+    const cost = usageCost(usage, modelPricing(model));
+    this.usage.record(agent.name, trace.requestId, usage, cost);
+    this.events.emit("model:usage", { agent, model, usage, cost, trace });
+
+    const exceeded = budgetExceeded(this.usage.forRequest(trace.requestId), this.budget, "the request") ??
+      budgetExceeded(this.usage.forAgentInRequest(trace.requestId, agent.name), this.agentBudgets.get(agent.name), `agent ${agent.name}`);
+    if (exceeded && !this.requestStats(trace.requestId).halted) {
+      this.haltRequest(trace.requestId, exceeded);
+    }
+  }
+
+  /**
+   * Get the tokens and cost used so far
+   */
+  public getUsage(): UsageTracker {
+    return this.usage;
+  }
+
+  /**
+   * Get every request made between agents, oldest first
+   */
+  public getLedger(): LedgerEntry[] {
+    return this.ledger.all();
+  }
+
+  /**
+   * Process the agent queues until all of them are empty or the work is cancelled
+   * This is the main loop that handles all agent interactions
+   *
+   * @param signal - Cancels the work: the prompts in progress are aborted and the queues are cleared
+   * @returns The prompts that were cancelled, empty when the queues drained normally
+   */
+  public async processQueue(signal?: AbortSignal): Promise<CancelledPrompt[]> {
+    const running: Map<string, { item: PromptQueueItem; task: Promise<void> }> = new Map();
+    const aborted = new Promise<void>((resolve) => signal?.addEventListener("abort", () => resolve(), { once: true }));
 
-        // Show error in spinner
-        failSpinner(`Error with agent ${nextPrompt.agent.name}: ${errorMessage}`);
+    while (!signal?.aborted) {
+      // Put the agents' questions to the user - the agents asking them are paused until they are answered
+      for (const pending of this.questions) {
+        pending.task ??= this.putQuestion(pending.question, signal).finally(() => this.questionAnswered(pending.question));
+      }
 
-        // Schedule error message back to agent
-        this.schedulePrompt(nextPrompt.agent, `Error processing prompt: ${errorMessage}`, nextPrompt.correlationId, nextPrompt.sourceAgent);
+      // Start the oldest waiting prompt of each idle agent while there is capacity
+      while (running.size < this.concurrency) {
+        const nextPrompt = this.dequeueNext();
+        if (!nextPrompt) {
+          break;
+        }
+
+        const agentName = nextPrompt.agent.name;
+        const task = this.processPrompt(nextPrompt, signal).finally(() => {
+          this.activeAgents.delete(agentName);
+          running.delete(agentName);
+        });
+        running.set(agentName, { item: nextPrompt, task });
       }
+
+      if (running.size === 0 && this.questions.length === 0) {
+        // Nothing is left that could answer the open requests, so let their requesters know
+        const unanswered = this.ledger.pending();
+        if (unanswered.length === 0) {
+          break;
+        }
+        unanswered.forEach((entry) => this.expireRequest(entry, "unanswered"));
+        continue;
+      }
+
+      // Wait for any agent to finish or question to be answered, or for the next open request to time out, before looking for more work
+      const tasks = [...Array.from(running.values()).map(({ task }) => task), ...this.questions.map(({ task }) => task!)];
+      await this.waitForAny([...tasks, aborted], this.ledger.nextDeadline(this.requestTimeout));
+      this.ledger.overdue(this.requestTimeout).forEach((entry) => this.expireRequest(entry, "timed_out"));
     }
+
+    if (signal?.aborted) {
+      return await this.cancel(Array.from(running.values()));
+    }
+
+    this.reportLimits();
+    return [];
   }
 
   /**
@@ -118,4 +619,334 @@ export class PromptScheduler {
   public getAgents(): Agent[] {
     return Array.from(this.agentRegistry.values());
   }
+
+  /**
+   * Get the names of the agents currently processing a prompt
+   */
+  public getActiveAgents(): string[] {
+    return Array.from(this.activeAgents);
+  }
+
+  private enqueue(entry: Omit<PromptQueueItem, "sequence">): void {
+    const stats = this.requestStats(entry.trace.requestId);
+    if (stats.halted) {
+      debugPrefix("Scheduler", `Dropped prompt for ${entry.agent.name}: request ${entry.trace.requestId} has been stopped`);
+      return;
+    }
+    if (stats.prompts >= this.maxPrompts) {
+      this.haltRequest(entry.trace.requestId, `the request exceeded the maximum of ${this.maxPrompts} prompts`);
+      return;
+    }
+
+    stats.prompts++;
+    stats.maxDepth = Math.max(stats.maxDepth, entry.trace.ancestry.length);
+
+    const item = { ...entry, sequence: this.nextSequence++ };
+    this.events.emit("prompt:enqueued", { item });
+    const queue = this.agentQueues.get(item.agent.name);
+    if (queue) {
+      queue.push(item);
+    } else {
+      this.agentQueues.set(item.agent.name, [item]);
+    }
+  }
+
+  /**
+   * Removes the next prompt to process - the head of the queue that has waited longest among the idle agents
+   */
+  private dequeueNext(): PromptQueueItem | undefined {
+    let selected: PromptQueueItem[] | undefined;
+
+    for (const [agentName, queue] of this.agentQueues) {
+      if (queue.length === 0 || this.activeAgents.has(agentName) || this.pausedAgents.has(agentName)) {
+        continue;
+      }
+      if (!selected || queue[0].sequence < selected[0].sequence) {
+        selected = queue;
+      }
+    }
+
+    const item = selected?.shift();
+    if (item) {
+      this.activeAgents.add(item.agent.name);
+    }
+    return item;
+  }
+
+  /**
+   * Deliver a reply to the agent that made the request, continuing from the requester's trace
+   */
+  private deliverReply(entry: LedgerEntry, sourceAgent: Agent, message: string): void {
+    const late = entry.status !== "pending" ? ` (this reply arrived after the request was reported as ${entry.status.replace("_", " ")})` : "";
+    this.ledger.resolve(entry, "answered");
+
+    const requester = this.agentRegistry.get(entry.from);
+    if (requester) {
+      this.events.emit("agent:delegation", { from: sourceAgent, to: requester, message, correlationId: entry.id, reply: true, trace: entry.trace });
+    }
+
+    this.schedulePrompt(
+      entry.from,
+      `Reply from agent ${entry.to} to your request ${entry.requesterCorrelationId}${late}:\n\n${message}`,
+      undefined,
+      undefined,
+      entry.trace,
+    );
+  }
+
+  /**
+   * Close a request that did not get a reply and notify the requester
+   */
+  private expireRequest(entry: LedgerEntry, status: "timed_out" | "unanswered" | "failed", error?: string): void {
+    this.ledger.resolve(entry, status);
+
+    const reason = status === "timed_out"
+      ? `timed out after ${Math.round(this.requestTimeout / 1000)} seconds without a reply`
+      : status === "failed"
+      ? `failed - agent ${entry.to} could not complete it: ${error}`
+      : `was not answered - agent ${entry.to} finished without replying`;
+    this.events.emit("error", { message: `Request ${entry.id} from ${entry.from} to ${entry.to} ${reason}`, trace: entry.trace });
+
+    this.schedulePrompt(
+      entry.from,
+      `Error: your request ${entry.requesterCorrelationId} to agent ${entry.to} ${reason}. Continue without it, ask again or report the problem.`,
+      undefined,
+      undefined,
+      entry.trace,
+    );
+  }
+
+  /**
+   * Drop all queued prompts and wait for the prompts in progress to wind down
+   */
+  private async cancel(running: { item: PromptQueueItem; task: Promise<void> }[]): Promise<CancelledPrompt[]> {
+    const cancelled: CancelledPrompt[] = running.map(({ item }) => ({ item, inProgress: true }));
+    cancelled.push(...this.clearQueues().map((item) => ({ item, inProgress: false })));
+
+    // Anything scheduled by the prompts in progress as they wind down is dropped as well
+    await Promise.allSettled(running.map(({ task }) => task));
+    this.clearQueues();
+
+    this.ledger.pending().forEach((entry) => this.ledger.resolve(entry, "cancelled"));
+    this.requests.clear();
+
+    // Questions the user has not answered yet are dropped, their answers are ignored
+    this.questions = [];
+    this.pausedAgents.clear();
+
+    return cancelled;
+  }
+
+  private clearQueues(): PromptQueueItem[] {
+    const items = Array.from(this.agentQueues.values()).flat().sort((a, b) => a.sequence - b.sequence);
+    this.agentQueues.clear();
+    return items;
+  }
+
+  /**
+   * Wait until one of the tasks settles or the timeout elapses
+   */
+  private async waitForAny(tasks: Promise<void>[], timeout: number | undefined): Promise<void> {
+    if (timeout === undefined) {
+      await Promise.race(tasks);
+      return;
+    }
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timer = new Promise<void>((resolve) => {
+      timeoutId = setTimeout(resolve, timeout);
+    });
+
+    try {
+      await Promise.race([...tasks, timer]);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private requestStats(requestId: number): RequestStats {
+    let stats = this.requests.get(requestId);
+    if (!stats) {
+      stats = { prompts: 0, maxDepth: 0, messages: new Map(), violations: new Map(), spawned: 0, halted: false };
+      this.requests.set(requestId, stats);
+    }
+    return stats;
+  }
+
+  private recordViolation(stats: RequestStats, violation: string): void {
+    stats.violations.set(violation, (stats.violations.get(violation) || 0) + 1);
+  }
+
+  /**
+   * Stops a runaway request by dropping its queued prompts and refusing any further ones
+   */
+  private haltRequest(requestId: number, reason: string): void {
+    const stats = this.requestStats(requestId);
+    stats.halted = true;
+    this.recordViolation(stats, reason);
+
+    for (const [agentName, queue] of this.agentQueues) {
+      this.agentQueues.set(agentName, queue.filter((item) => item.trace.requestId !== requestId));
+    }
+    this.ledger.pending().filter((entry) => entry.trace.requestId === requestId).forEach((entry) => this.ledger.resolve(entry, "cancelled"));
+
+    this.events.emit("error", { message: `Stopped request ${requestId}: ${reason}` });
+  }
+
+  /**
+   * Summarise the requests that tripped a delegation limit or budget once the queues have drained
+   */
+  private reportLimits(): void {
+    for (const [requestId, stats] of this.requests) {
+      if (stats.violations.size > 0) {
+        const lines = [`Request ${requestId} tripped its limits after ${stats.prompts} prompts with a maximum depth of ${stats.maxDepth}:`];
+        for (const [violation, count] of stats.violations) {
+          lines.push(`  - ${violation}${count > 1 ? ` (${count} times)` : ""}`);
+        }
+        this.events.emit("notice", { message: lines.join("\n") });
+      }
+    }
+
+    this.requests.clear();
+  }
+
+  /**
+   * Process a prompt, retrying transient model errors with backoff and switching to the agent's fallback models when its model is unavailable
+   * The agent stays busy while it waits to retry. When the prompt finally fails, the agent waiting on the request it belongs to is notified.
+   */
+  private async processPrompt(nextPrompt: PromptQueueItem, signal?: AbortSignal): Promise<void> {
+    this.events.emit("prompt:started", { item: nextPrompt });
+
+    for (let retry = 0;; retry++) {
+      try {
+        // Process the prompt with the target agent
+        await nextPrompt.agent.handlePrompt(nextPrompt, signal);
+
+        this.events.emit("prompt:finished", { item: nextPrompt });
+        return;
+      } catch (error) {
+        if (signal?.aborted) {
+          this.events.emit("prompt:finished", { item: nextPrompt, error: "Cancelled", cancelled: true });
+          return;
+        }
+
+        const errorMessage = (error instanceof Error) ? error.message : String(error);
+
+        // Only temporary problems with a model are worth another try, anything else fails straight away
+        const policy = error instanceof ModelError ? this.retryPolicy(error.provider) : undefined;
+        if (error instanceof ModelError && error.transient && policy && retry < policy.maxRetries) {
+          const delay = backoffDelay(policy, retry, error.retryAfter);
+          this.events.emit("prompt:retrying", { item: nextPrompt, retry: retry + 1, delay, error: errorMessage });
+          await this.sleep(delay, signal);
+          continue;
+        }
+
+        // When the provider can't serve the model, the next fallback model picks up the conversation and gets its own retries
+        const from = nextPrompt.agent.modelName;
+        const to = error instanceof ModelError && isUnavailable(error) ? nextPrompt.agent.fallBack() : undefined;
+        if (to) {
+          this.events.emit("model:fallback", { item: nextPrompt, from, to, error: errorMessage });
+          retry = -1;
+          continue;
+        }
+
+        this.events.emit("prompt:finished", { item: nextPrompt, error: errorMessage });
+        this.failRequest(nextPrompt, errorMessage);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Put a question to the user and send the answer back to the agent that asked it
+   */
+  private async putQuestion(question: UserQuestion, signal?: AbortSignal): Promise<void> {
+    let reply: string;
+    try {
+      if (!this.userQuestionHandler) {
+        throw new Error("there is no user to answer questions");
+      }
+
+      const answer = await this.userQuestionHandler(question, signal);
+      this.events.emit("user:answer", { question, answer });
+      reply = `Reply from the user to your question ${question.correlationId}:\n\n${answer}`;
+    } catch (e) {
+      if (signal?.aborted) {
+        return;
+      }
+
+      const errorMessage = e instanceof Error ? e.message : String(e);
+      this.events.emit("error", {
+        message: `Question from ${question.agent.name} was not answered: ${errorMessage}`,
+        agent: question.agent,
+        trace: question.trace,
+      });
+      reply =
+        `Error: your question ${question.correlationId} to the user was not answered: ${errorMessage}. Continue without the answer or report the problem.`;
+    }
+
+    this.schedulePrompt(question.agent, reply, undefined, undefined, question.trace);
+  }
+
+  private questionAnswered(question: UserQuestion): void {
+    this.questions = this.questions.filter((pending) => pending.question !== question);
+
+    const paused = (this.pausedAgents.get(question.agent.name) ?? 0) - 1;
+    if (paused > 0) {
+      this.pausedAgents.set(question.agent.name, paused);
+    } else {
+      this.pausedAgents.delete(question.agent.name);
+    }
+  }
+
+  private retryPolicy(provider: string): RetryPolicy {
+    return this.retryPolicies.get(provider) ?? DEFAULT_RETRY_POLICY;
+  }
+
+  /**
+   * Let the agent waiting on the request a failed prompt belongs to know that it will not get a reply
+   */
+  private failRequest(item: PromptQueueItem, error: string): void {
+    const frame = item.trace.ancestry.at(-1);
+    const entry = frame && this.ledger.get(frame.correlationId);
+    if (entry?.status === "pending") {
+      this.expireRequest(entry, "failed", error);
+    }
+  }
+
+  /**
+   * Wait for the given time, or until the work is cancelled
+   */
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(done, ms);
+      signal?.addEventListener("abort", done, { once: true });
+
+      function done() {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      }
+    });
+  }
+}
+
+/**
+ * Remove the properties that are undefined, so that they don't override defaults when spread
+ */
+function definedValues<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+/**
+ * Describe a prompt in a single line: the first line of a text prompt, limited in length
+ */
+export function describePrompt(prompt: string | ToolResponses, maxLength: number): string {
+  if (typeof prompt !== "string") {
+    return "Processing tool responses...";
+  }
+
+  // Get first line only and truncate it if too long
+  const firstLine = prompt.split("\n")[0].trim();
+  return firstLine.length > maxLength ? firstLine.substring(0, maxLength) + "..." : firstLine;
 }
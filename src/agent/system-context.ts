@@ -8,6 +8,8 @@ export const systemContext = (agent: Agent): string => {
     skills: agent.skills,
     tools: agent.tools,
     agents: agent.agents,
+    memories: agent.recalledMemories,
+    native: agent.nativeTools,
     currentTime: getCurrentTimeInTimeZone(),
   };
 
@@ -0,0 +1,233 @@
+import { debugPrefix } from "../lib/cli.ts";
+import { SnapshotFile } from "../lib/snapshot-file.ts";
+import { EventBus } from "./events.ts";
+import { type PromptTrace } from "./index.ts";
+
+export const TASK_STATUSES = ["todo", "in_progress", "done"] as const;
+
+export type TaskStatus = typeof TASK_STATUSES[number];
+
+/**
+ * A piece of planned work on the task board
+ */
+export interface Task {
+  id: number;
+  title: string;
+  /** The name of the agent that should do the task */
+  assignee?: string;
+  status: TaskStatus;
+  /** The IDs of the tasks that have to be done first */
+  dependencies: number[];
+  /** What has to be true for the task to be done */
+  criteria: string[];
+  /** Progress notes, the last one of a done task is its result */
+  notes: string[];
+  /** The name of the agent that made the last change, or "user" for changes made with /tasks */
+  author: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface NewTask {
+  title: string;
+  assignee?: string;
+  dependencies?: number[];
+  criteria?: string[];
+}
+
+export type TaskBoardEvents = {
+  /** A task was created or changed, the trace is given when an agent changed it while handling a request */
+  "task:changed": { task: Task; trace?: PromptTrace };
+};
+
+/**
+ * Thrown when a change to the task board is not possible, e.g. for a missing task or one that is already done
+ */
+export class TaskError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TaskError";
+  }
+}
+
+/**
+ * The planned tasks of a project, with their assignees, dependencies and acceptance criteria
+ * The tasks are saved to a file after every change, so that the work can be resumed in a later session.
+ */
+export class TaskBoard {
+  public readonly events = new EventBus<TaskBoardEvents>();
+  private tasks: Map<number, Task> = new Map();
+  private nextId = 1;
+  private file: SnapshotFile<Task[]> | undefined;
+
+  /**
+   * Load the tasks of a project from a file, which is then kept up to date - a missing file starts an empty board
+   * @throws When the file can't be read, it is then left as it is
+   */
+  public async load(path: string): Promise<void> {
+    const file = new SnapshotFile<Task[]>(path, "Tasks");
+    const tasks = await file.read() ?? [];
+    this.tasks = new Map(tasks.map((task) => [task.id, { ...task, createdAt: new Date(task.createdAt), updatedAt: new Date(task.updatedAt) }]));
+    this.nextId = Math.max(0, ...this.tasks.keys()) + 1;
+    this.file = file;
+    debugPrefix("Tasks", `Loaded ${this.tasks.size} tasks from ${path}`);
+  }
+
+  public get(id: number): Task | undefined {
+    const task = this.tasks.get(id);
+    return task && copy(task);
+  }
+
+  /**
+   * The tasks in the order they were created, only those with the status when one is given
+   */
+  public list(status?: TaskStatus): Task[] {
+    return Array.from(this.tasks.values()).filter((task) => status === undefined || task.status === status).map(copy);
+  }
+
+  /**
+   * The tasks that can be worked on: not done, assigned and with all their dependencies done
+   */
+  public ready(): Task[] {
+    return this.list().filter((task) => task.status !== "done" && task.assignee !== undefined && this.blockers(task).length === 0);
+  }
+
+  /**
+   * The dependencies of a task that are not done yet
+   */
+  public blockers(task: Task): number[] {
+    return task.dependencies.filter((id) => this.tasks.get(id)?.status !== "done");
+  }
+
+  /**
+   * @throws TaskError when a dependency does not exist
+   */
+  public create(newTask: NewTask, author: string, trace?: PromptTrace): Task {
+    const dependencies = newTask.dependencies ?? [];
+    const missing = dependencies.filter((id) => !this.tasks.has(id));
+    if (missing.length > 0) {
+      throw new TaskError(`There is no task ${missing.join(", ")}`);
+    }
+
+    const now = new Date();
+    const task: Task = {
+      id: this.nextId++,
+      title: newTask.title,
+      assignee: newTask.assignee,
+      status: "todo",
+      dependencies,
+      criteria: newTask.criteria ?? [],
+      notes: [],
+      author,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.tasks.set(task.id, task);
+    this.changed(task, trace);
+    return copy(task);
+  }
+
+  /**
+   * Assign a task to an agent and start it
+   * @throws TaskError when the task does not exist, is done, is blocked or is being worked on by another agent
+   */
+  public claim(id: number, agentName: string, trace?: PromptTrace): Task {
+    const task = this.find(id);
+    if (task.status === "done") {
+      throw new TaskError(`Task ${id} is already done`);
+    }
+    if (task.status === "in_progress" && task.assignee !== agentName) {
+      throw new TaskError(`Task ${id} is being worked on by ${task.assignee}`);
+    }
+    const blockers = this.blockers(task);
+    if (blockers.length > 0) {
+      throw new TaskError(`Task ${id} is waiting for task ${blockers.join(", ")}`);
+    }
+
+    task.assignee = agentName;
+    task.status = "in_progress";
+    task.author = agentName;
+    task.updatedAt = new Date();
+    this.changed(task, trace);
+    return copy(task);
+  }
+
+  /**
+   * Change the status or assignee of a task, and add a progress note
+   * @throws TaskError when the task does not exist
+   */
+  public update(id: number, changes: { status?: TaskStatus; assignee?: string; note?: string }, author: string, trace?: PromptTrace): Task {
+    const task = this.find(id);
+    if (changes.status !== undefined) {
+      task.status = changes.status;
+    }
+    if (changes.assignee !== undefined) {
+      task.assignee = changes.assignee;
+    }
+    if (changes.note) {
+      task.notes.push(changes.note);
+    }
+    task.author = author;
+    task.updatedAt = new Date();
+    this.changed(task, trace);
+    return copy(task);
+  }
+
+  /**
+   * Mark a task as done, with a summary of the result
+   * @throws TaskError when the task does not exist or is already done
+   */
+  public complete(id: number, summary: string, author: string, trace?: PromptTrace): Task {
+    if (this.find(id).status === "done") {
+      throw new TaskError(`Task ${id} is already done`);
+    }
+    return this.update(id, { status: "done", note: summary }, author, trace);
+  }
+
+  /**
+   * Remove a task, the tasks depending on it no longer wait for it
+   * @returns Whether there was a task to remove
+   */
+  public remove(id: number): boolean {
+    const removed = this.tasks.delete(id);
+    if (removed) {
+      this.tasks.forEach((task) => task.dependencies = task.dependencies.filter((dependency) => dependency !== id));
+      this.save();
+    }
+    return removed;
+  }
+
+  public clear(): void {
+    this.tasks.clear();
+    this.nextId = 1;
+    this.save();
+  }
+
+  /**
+   * Wait for the pending writes to the file
+   */
+  public async flush(): Promise<void> {
+    await this.file?.flush();
+  }
+
+  private find(id: number): Task {
+    const task = this.tasks.get(id);
+    if (!task) {
+      throw new TaskError(`There is no task ${id}`);
+    }
+    return task;
+  }
+
+  private changed(task: Task, trace?: PromptTrace): void {
+    this.save();
+    this.events.emit("task:changed", { task: copy(task), trace });
+  }
+
+  private save(): void {
+    this.file?.write(Array.from(this.tasks.values()));
+  }
+}
+
+function copy(task: Task): Task {
+  return { ...task, dependencies: [...task.dependencies], criteria: [...task.criteria], notes: [...task.notes] };
+}
@@ -0,0 +1,147 @@
+import { type ToolCall, type ToolDefinition } from "../model/types.ts";
+import { type Tool, type ToolFunctionArg } from "../tools/types.ts";
+import { type AgentCall, type FunctionCall, type ResponseMessage, type UserCall } from "./response-parser.ts";
+
+/**
+ * How an agent calls tools and other agents: by writing TOOL:, AGENT: and USER: lines in its response, or with the
+ * model's native tool use, which only some models support
+ */
+export type ToolProtocol = "text" | "native";
+
+// Separates the tool identifier from the function name in the name of a native tool, e.g. board__put
+const SEPARATOR = "__";
+
+// The synthetic tools for messaging agents, asking the user and finishing the task
+const SEND_MESSAGE = "send_message";
+const ASK_USER = "ask_user";
+const DONE = "done";
+
+/**
+ * The native tool definitions of the functions of an agent's tools, followed by the synthetic tools for messaging
+ * agents, asking the user and finishing the task
+ */
+export function toolDefinitions(tools: Tool[]): ToolDefinition[] {
+  const functions = tools.flatMap((tool) =>
+    tool.functions.map((func): ToolDefinition => ({
+      name: `${tool.identifier}${SEPARATOR}${func.name}`,
+      description: `${func.purpose}. Returns ${func.response.charAt(0).toLowerCase()}${func.response.slice(1)}`,
+      inputSchema: {
+        type: "object",
+        properties: Object.fromEntries(func.arguments.map((arg) => [arg.name, { ...argumentSchema(arg), description: arg.description }])),
+        required: func.arguments.filter((arg) => !arg.optional).map((arg) => arg.name),
+      },
+    }))
+  );
+
+  return [
+    ...functions,
+    {
+      name: SEND_MESSAGE,
+      description: "Send a message to another agent, or reply to an agent that sent you a prompt",
+      inputSchema: {
+        type: "object",
+        properties: {
+          agent: { type: "string", description: "Name of the agent" },
+          message: { type: "string", description: "Your full message" },
+          correlation: { type: "string", description: "The correlation of the prompt you are replying to, left out for a new message" },
+        },
+        required: ["agent", "message"],
+      },
+    },
+    {
+      name: ASK_USER,
+      description: "Ask the user a question when only the user can give you the information you need, the answer arrives as a reply",
+      inputSchema: {
+        type: "object",
+        properties: { question: { type: "string", description: "Your question" } },
+        required: ["question"],
+      },
+    },
+    {
+      name: DONE,
+      description: "Finish the task, once it is complete",
+      inputSchema: { type: "object", properties: {} },
+    },
+  ];
+}
+
+function argumentSchema(arg: ToolFunctionArg): Record<string, unknown> {
+  switch (arg.dataType) {
+    case "string":
+    case "number":
+    case "boolean":
+      return { type: arg.dataType };
+    case "string[]":
+    case "number[]":
+      return { type: "array", items: { type: arg.dataType.slice(0, -2) } };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Add the native tool calls of a response to the response parsed from its text, as the calls the text protocol
+ * would have produced, so that they are handled the same way
+ * A call of a tool function is answered with a tool response that has the call's ID as correlation ID.
+ *
+ * @param tools The tools of the agent, calls of unknown tools are passed on and fail like unknown text calls
+ */
+export function applyToolCalls(message: ResponseMessage, calls: ToolCall[], tools: Tool[]): ResponseMessage {
+  const functionCalls: FunctionCall[] = [...message.function_calls ?? []];
+  const agentCalls: AgentCall[] = [...message.agent_calls ?? []];
+  const userCalls: UserCall[] = [...message.user_calls ?? []];
+  const used: string[] = [];
+  let done = message.done;
+
+  for (const call of calls) {
+    if (call.name === SEND_MESSAGE) {
+      const correlation = call.input.correlation;
+      agentCalls.push({
+        name: String(call.input.agent),
+        correlationId: typeof correlation === "string" && correlation !== "" ? correlation : call.id,
+        message: String(call.input.message ?? ""),
+      });
+    } else if (call.name === ASK_USER) {
+      userCalls.push({ correlationId: call.id, question: String(call.input.question ?? "") });
+    } else if (call.name === DONE) {
+      done = true;
+    } else {
+      const functionCall = toFunctionCall(call, tools);
+      functionCalls.push(functionCall);
+      used.push(`[Using ${functionCall.tool}.${functionCall.function}(${functionCall.args.join(", ")})]`);
+    }
+  }
+
+  return {
+    done,
+    content: [message.content, ...used].filter((text) => text !== "").join("\n"),
+    ...(functionCalls.length > 0 ? { function_calls: functionCalls } : {}),
+    ...(agentCalls.length > 0 ? { agent_calls: agentCalls } : {}),
+    ...(userCalls.length > 0 ? { user_calls: userCalls } : {}),
+  };
+}
+
+/**
+ * Turn a native tool call into a function call, with its input in the order of the function's arguments
+ * The arguments are written as source, as the text protocol's are, with left out arguments as undefined.
+ */
+function toFunctionCall(call: ToolCall, tools: Tool[]): FunctionCall {
+  const separator = call.name.indexOf(SEPARATOR);
+  const identifier = separator === -1 ? call.name : call.name.slice(0, separator);
+  const functionName = separator === -1 ? "" : call.name.slice(separator + SEPARATOR.length);
+  const spec = tools.find((tool) => tool.identifier === identifier)?.functions.find((func) => func.name === functionName);
+
+  const names = spec ? spec.arguments.map((arg) => arg.name) : Object.keys(call.input);
+  const args = names.map((name) => call.input[name] === undefined ? "undefined" : source(call.input[name]));
+  while (args.length > 0 && args[args.length - 1] === "undefined") {
+    args.pop();
+  }
+
+  return { tool: identifier, correlationId: call.id, function: functionName, args };
+}
+
+function source(value: unknown): string {
+  const json = JSON.stringify(value);
+  // An object literal on its own is read as a block
+  return typeof value === "object" && value !== null && !Array.isArray(value) ? `(${json})` : json;
+}
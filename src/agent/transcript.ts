@@ -0,0 +1,76 @@
+import { debugPrefix } from "../lib/cli.ts";
+import { type EventBus, type SchedulerEvents } from "./events.ts";
+import { Agent } from "./index.ts";
+
+/**
+ * An event payload as it is recorded: agents by name and dates as ISO timestamps
+ */
+export type Recorded<T> = T extends Agent ? string
+  : T extends Date ? string
+  : T extends (infer U)[] ? Recorded<U>[]
+  : T extends object ? { [K in keyof T]: Recorded<T[K]> }
+  : T;
+
+/**
+ * A line of a transcript: a scheduler event with the time it happened
+ */
+export type TranscriptRecord = {
+  [K in keyof SchedulerEvents]: {
+    /** ISO timestamp */
+    time: string;
+    event: K;
+    data: Recorded<SchedulerEvents[K]>;
+  };
+}[keyof SchedulerEvents];
+
+/**
+ * Records every scheduler event to a JSONL file, in the order the events happened across all agents
+ */
+export class Transcript {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(public readonly file: string) {}
+
+  /**
+   * Start recording the events
+   * @returns A function that stops the recording
+   */
+  public record(events: EventBus<SchedulerEvents>): () => void {
+    return events.onAny((event, payload) => {
+      // The streamed pieces of a response are recorded once complete, with model:response
+      if (event !== "model:token") {
+        this.write({ time: new Date().toISOString(), event, data: payload } as TranscriptRecord);
+      }
+    });
+  }
+
+  /**
+   * Wait for the pending writes to the file
+   */
+  public async flush(): Promise<void> {
+    await this.writing;
+  }
+
+  private write(record: TranscriptRecord): void {
+    // Agents hold their models, tools and scheduler, so only their names are recorded
+    const line = JSON.stringify(record, (_key, value) => value instanceof Agent ? value.name : value) + "\n";
+    this.writing = this.writing
+      .then(() => Deno.writeTextFile(this.file, line, { append: true }))
+      .catch((e) => debugPrefix("Transcript", `Error writing ${this.file}: ${e instanceof Error ? e.message : String(e)}`));
+  }
+}
+
+/**
+ * Read the records of a transcript file
+ * @throws When a line is not valid JSON
+ */
+export async function readTranscript(file: string): Promise<TranscriptRecord[]> {
+  const content = await Deno.readTextFile(file);
+  return content.split("\n").filter((line) => line.trim() !== "").map((line, index) => {
+    try {
+      return JSON.parse(line) as TranscriptRecord;
+    } catch (e) {
+      throw new Error(`Line ${index + 1} of ${file} is not valid JSON: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  });
+}
@@ -0,0 +1,124 @@
+import { type ModelPricing, type TokenUsage } from "../model/index.ts";
+
+/**
+ * Tokens and cost accumulated over a number of model calls
+ */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** US dollars, models without pricing count as free */
+  cost: number;
+}
+
+/**
+ * A limit on the tokens or cost that may be used, either or both may be given
+ */
+export interface Budget {
+  maxTokens?: number;
+  /** US dollars */
+  maxCost?: number;
+}
+
+/**
+ * Accumulates the usage reported by the models for each agent, for each user request and for each agent within a request
+ */
+export class UsageTracker {
+  private total: UsageTotals = emptyTotals();
+  private agents: Map<string, UsageTotals> = new Map();
+  private requests: Map<number, { total: UsageTotals; agents: Map<string, UsageTotals> }> = new Map();
+
+  public record(agentName: string, requestId: number, usage: TokenUsage, cost: number): void {
+    let request = this.requests.get(requestId);
+    if (!request) {
+      request = { total: emptyTotals(), agents: new Map() };
+      this.requests.set(requestId, request);
+    }
+
+    for (const totals of [this.total, totalsFor(this.agents, agentName), request.total, totalsFor(request.agents, agentName)]) {
+      totals.calls++;
+      totals.inputTokens += usage.inputTokens;
+      totals.outputTokens += usage.outputTokens;
+      totals.cost += cost;
+    }
+  }
+
+  /**
+   * The usage of the whole session
+   */
+  public getTotal(): UsageTotals {
+    return { ...this.total };
+  }
+
+  /**
+   * The usage of each agent over the whole session
+   */
+  public byAgent(): Map<string, UsageTotals> {
+    return new Map(Array.from(this.agents, ([name, totals]) => [name, { ...totals }]));
+  }
+
+  /**
+   * The usage of each user request
+   */
+  public byRequest(): Map<number, UsageTotals> {
+    return new Map(Array.from(this.requests, ([requestId, request]) => [requestId, { ...request.total }]));
+  }
+
+  public forRequest(requestId: number): UsageTotals {
+    return { ...(this.requests.get(requestId)?.total ?? emptyTotals()) };
+  }
+
+  public forAgentInRequest(requestId: number, agentName: string): UsageTotals {
+    return { ...(this.requests.get(requestId)?.agents.get(agentName) ?? emptyTotals()) };
+  }
+}
+
+/**
+ * The cost in US dollars of the tokens used by a model call
+ */
+export function usageCost(usage: TokenUsage, pricing: ModelPricing | undefined): number {
+  if (!pricing) {
+    return 0;
+  }
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Check usage against a budget
+ * @param subject Describes whose usage it is in the returned message, e.g. "agent Typer"
+ * @returns Why the budget was exceeded, or undefined when it was not
+ */
+export function budgetExceeded(totals: UsageTotals, budget: Budget | undefined, subject: string): string | undefined {
+  const tokens = totals.inputTokens + totals.outputTokens;
+  if (budget?.maxTokens !== undefined && tokens > budget.maxTokens) {
+    return `${subject} used ${tokens} tokens, exceeding the budget of ${budget.maxTokens} tokens`;
+  }
+  if (budget?.maxCost !== undefined && totals.cost > budget.maxCost) {
+    return `${subject} cost ${formatCost(totals.cost)}, exceeding the budget of ${formatCost(budget.maxCost)}`;
+  }
+  return undefined;
+}
+
+/**
+ * Describe usage in a single line
+ */
+export function formatUsage(totals: UsageTotals): string {
+  return `${totals.calls} call${totals.calls === 1 ? "" : "s"}, ${totals.inputTokens} tokens in, ${totals.outputTokens} tokens out, ${formatCost(totals.cost)}`;
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(4)}`;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+function totalsFor<K>(totals: Map<K, UsageTotals>, key: K): UsageTotals {
+  let entry = totals.get(key);
+  if (!entry) {
+    entry = emptyTotals();
+    totals.set(key, entry);
+  }
+  return entry;
+}
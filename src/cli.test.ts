@@ -0,0 +1,127 @@
+// Tests for the batch mode of cli.ts, with the primary agent on a scripted model
+import { assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { stringify as stringifyYaml } from "https://deno.land/std@0.224.0/yaml/mod.ts";
+import { type ScriptedResponse } from "./model/index.ts";
+import { main } from "./cli.ts";
+
+class Exit extends Error {
+  constructor(public readonly code: number) {
+    super(`Exited with ${code}`);
+  }
+}
+
+type Stubbed = Pick<typeof Deno, "exit" | "addSignalListener" | "removeSignalListener">;
+
+/**
+ * Run the CLI in batch mode in an empty directory, with an Assistant that answers with the scripted responses and may run commands
+ * Ctrl+C is pressed after the given number of milliseconds, the process is not really signalled since the test runner would stop.
+ * @returns The exit code and the lines printed on stdout
+ */
+async function runBatch(responses: ScriptedResponse[], args: string[], interruptAfter?: number): Promise<{ code: number; stdout: string[] }> {
+  const dir = await Deno.makeTempDir();
+  await Deno.writeTextFile(`${dir}/fixture.yaml`, stringifyYaml({ responses }));
+  await Deno.writeTextFile(
+    `${dir}/agents.yaml`,
+    stringifyYaml({
+      agents: [{
+        name: "Assistant",
+        bio: "Answers questions",
+        skills: [],
+        modelName: `scripted:${dir}/fixture.yaml`,
+        approval: { rules: [{ action: "allow", tool: "bash-executor-tool" }] },
+      }],
+    }),
+  );
+
+  const cwd = Deno.cwd();
+  const home = Deno.env.get("HOME");
+  const deno = Deno as Stubbed;
+  const { exit, addSignalListener, removeSignalListener } = deno;
+  const { log, error } = console;
+  const stdout: string[] = [];
+  const timers: number[] = [];
+
+  Deno.chdir(dir);
+  Deno.env.set("HOME", dir);
+  deno.exit = (code = 0) => {
+    throw new Exit(code);
+  };
+  deno.addSignalListener = (signal, handler) => {
+    if (signal === "SIGINT" && interruptAfter !== undefined) {
+      timers.push(setTimeout(handler, interruptAfter));
+    }
+  };
+  deno.removeSignalListener = () => {};
+  console.log = (...data: unknown[]) => stdout.push(data.join(" "));
+  console.error = () => {};
+
+  try {
+    await main(["--no-stream", ...args]);
+    throw new Error("The run did not exit");
+  } catch (e) {
+    if (!(e instanceof Exit)) {
+      throw e;
+    }
+    return { code: e.code, stdout };
+  } finally {
+    timers.forEach(clearTimeout);
+    Object.assign(deno, { exit, addSignalListener, removeSignalListener });
+    Object.assign(console, { log, error });
+    home === undefined ? Deno.env.delete("HOME") : Deno.env.set("HOME", home);
+    Deno.chdir(cwd);
+    await Deno.remove(dir, { recursive: true });
+  }
+}
+
+const SLOW_COMMAND: ScriptedResponse = { turn: 1, response: 'TOOL:t1:bash-executor-tool.execute("sleep 5")' };
+
+Deno.test("Batch mode - only the final answer is printed on stdout and the run succeeds", async () => {
+  const result = await runBatch([
+    { turn: 1, response: 'Let me look.\n\nTOOL:t1:file-system-tool.read("agents.yaml")' },
+    { response: "The answer is 42.\n\nTOOL:done" },
+  ], ["--prompt", "What is the answer?"]);
+
+  assertEquals(result, { code: 0, stdout: ["The answer is 42."] });
+});
+
+Deno.test("Batch mode - a question to the user is answered with --user-answer", async () => {
+  const result = await runBatch([
+    { turn: 1, response: 'USER:q1("Which database should I use?")' },
+    { prompt: "SQLite", response: "The answer is SQLite.\n\nTOOL:done" },
+  ], ["--prompt", "Set up the tests", "--user-answer", "SQLite"]);
+
+  assertEquals(result, { code: 0, stdout: ["The answer is SQLite."] });
+});
+
+Deno.test("Batch mode - a question to the user without --user-answer fails the run", async () => {
+  const result = await runBatch([{ response: 'USER:q1("Which database should I use?")' }], ["--prompt", "Set up the tests"]);
+
+  assertEquals(result, { code: 1, stdout: [] });
+});
+
+Deno.test("Batch mode - a run without an answer fails", async () => {
+  const result = await runBatch([{ response: "" }], ["--prompt", "What is the answer?"]);
+
+  assertEquals(result, { code: 1, stdout: [] });
+});
+
+Deno.test("Batch mode - invalid arguments are a usage error", async () => {
+  assertEquals(await runBatch([], ["--prompt", "What is the answer?", "--max-duration", "soon"]), { code: 2, stdout: [] });
+  assertEquals(await runBatch([], ["--prompt", "  "]), { code: 2, stdout: [] });
+});
+
+Deno.test("Batch mode - a run that goes over --max-duration is stopped", async () => {
+  const startedAt = Date.now();
+  const result = await runBatch([SLOW_COMMAND], ["--prompt", "Wait", "--max-duration", "0.2"]);
+
+  assertEquals(result, { code: 124, stdout: [] });
+  assertEquals(Date.now() - startedAt < 2000, true);
+});
+
+Deno.test("Batch mode - a run interrupted with Ctrl+C is stopped", async () => {
+  const startedAt = Date.now();
+  const result = await runBatch([SLOW_COMMAND], ["--prompt", "Wait"], 200);
+
+  assertEquals(result, { code: 130, stdout: [] });
+  assertEquals(Date.now() - startedAt < 2000, true);
+});
@@ -1,13 +1,28 @@
 #!/usr/bin/env deno run --allow-all
 
-import { Agent } from "./agent/index.ts";
-import { PromptScheduler } from "./agent/scheduler.ts";
-import { loadAgentsConfig } from "./config/agents.ts";
-import { debugPrefix, info, stopSpinner } from "./lib/cli.ts";
+import { Agent, type AgentConfig } from "./agent/index.ts";
+import { type CancelledPrompt, describePrompt, PromptScheduler, type UserQuestion } from "./agent/scheduler.ts";
+import { reportToConsole } from "./agent/console-reporter.ts";
+import { Transcript } from "./agent/transcript.ts";
+import { TASK_STATUSES, type TaskStatus } from "./agent/tasks.ts";
+import { type ApprovalAnswer, type ToolApprovalRequest } from "./agent/approval.ts";
+import { formatUsage } from "./agent/usage.ts";
+import { checkModel, type CompactionPolicy, DEFAULT_COMPACTION_POLICY, hasModel, listModels, type ModelOptions } from "./model/index.ts";
+import { type BudgetConfig, type CompactionConfig, loadConfig, type RetryConfig } from "./config/agents.ts";
+import { registerDeclaredModels, toModelOptions, validateModelOptions } from "./config/models.ts";
+import { approvalRequest, debugPrefix, info, outputToStderr, pauseActivities, question, resumeActivities } from "./lib/cli.ts";
+import { replay } from "./replay.ts";
 import { parse } from "https://deno.land/std/flags/mod.ts";
 
 const DEFAULT_MODEL = "claude-3.5-sonnet"; // Default model name
 
+// Exit codes of batch mode
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1; // The primary agent did not produce an answer, or a question for the user could not be answered
+const EXIT_USAGE = 2; // Invalid command line arguments or an unreadable prompt
+const EXIT_TIMEOUT = 124; // The --max-duration limit was reached, as with timeout(1)
+const EXIT_INTERRUPTED = 130; // Cancelled with Ctrl+C
+
 // Command-line interface for the agent system
 class AgentCLI {
   private primaryAgent: Agent;
@@ -17,27 +32,48 @@ class AgentCLI {
   private historyIndex = 0;
   private historyFile: string;
   private contextDir: string;
+  private memoryDir: string;
+  private boardFile: string;
+  private tasksFile: string;
+  private transcript: Transcript;
   private currentAbortController: AbortController | null = null;
   private readonly MAX_HISTORY = 1000;
   private currentInput = "";
   private cursorPos = 0;
+  private inputPrompt = "";
+  private pendingQuestion: Promise<unknown> = Promise.resolve();
   private promptInProgress = false;
   private configuredPrimaryAgentName?: string;
   private configuredModelName?: string;
+  private configuredConcurrency?: number;
+  private completedTasks: Map<number, string> = new Map();
 
-  constructor(primaryAgentName?: string, modelName?: string) {
-    // Store the agent name and model name to use when initializing
+  constructor(primaryAgentName?: string, modelName?: string, concurrency?: number, session = "default", streaming = false) {
+    // Store the agent name, model name and concurrency to use when initializing
     this.configuredPrimaryAgentName = primaryAgentName;
     this.configuredModelName = modelName;
+    this.configuredConcurrency = concurrency;
 
     // Set up directories for storing context and history
     const configDir = `${Deno.env.get("HOME") || Deno.env.get("USERPROFILE") || "."}/.h3`;
     this.contextDir = `${configDir}/context`;
+    this.memoryDir = `${configDir}/memory`;
+    const boardDir = `${configDir}/boards`;
+    this.boardFile = `${boardDir}/${session}.json`;
+    const transcriptDir = `${configDir}/transcripts`;
+    // The task board belongs to the project in the working directory, whatever the session
+    const tasksDir = `${configDir}/tasks`;
+    this.tasksFile = `${tasksDir}/${Deno.cwd().replace(/[^\w.-]+/g, "-").replace(/^-+/, "")}.json`;
+    const startedAt = new Date().toISOString().replace(/[:.]/g, "-");
 
     // Create config directories if they don't exist
     try {
       Deno.mkdirSync(configDir, { recursive: true });
       Deno.mkdirSync(this.contextDir, { recursive: true });
+      Deno.mkdirSync(this.memoryDir, { recursive: true });
+      Deno.mkdirSync(boardDir, { recursive: true });
+      Deno.mkdirSync(transcriptDir, { recursive: true });
+      Deno.mkdirSync(tasksDir, { recursive: true });
     } catch (e) {
       if (!(e instanceof Deno.errors.AlreadyExists)) {
         console.error(`Error creating config directories: ${e instanceof Error ? e.message : String(e)}`);
@@ -47,7 +83,17 @@ class AgentCLI {
     this.historyFile = `${configDir}/history`;
 
     // Create the scheduler - central coordination point
-    this.scheduler = new PromptScheduler();
+    this.scheduler = new PromptScheduler({ concurrency, streaming });
+    reportToConsole(this.scheduler.events);
+    this.transcript = new Transcript(`${transcriptDir}/${session}-${startedAt}.jsonl`);
+    this.transcript.record(this.scheduler.events);
+
+    // Remember the user requests whose task was completed, to summarise them once the agents are idle
+    this.scheduler.events.on("task:done", ({ agent, trace }) => {
+      if (trace.ancestry.length === 0) {
+        this.completedTasks.set(trace.requestId, agent.name);
+      }
+    });
 
     // We'll initialize agents in loadAgents, which will be awaited before any interaction
     this.primaryAgent = null as unknown as Agent; // Will be set in loadAgents
@@ -61,6 +107,8 @@ class AgentCLI {
     try {
       await this.loadAgents(this.configuredPrimaryAgentName, this.configuredModelName);
       await this.loadHistory();
+      await this.loadBoard();
+      await this.loadTasks();
 
       // Make sure we have a valid primary agent
       if (!this.primaryAgent) {
@@ -99,7 +147,30 @@ class AgentCLI {
    */
   private async loadAgents(primaryAgentName?: string, modelName?: string): Promise<void> {
     try {
-      const agentConfigs = await loadAgentsConfig();
+      const { agents: agentConfigs, models, scheduler: schedulerConfig, budget, retry, compaction } = await loadConfig();
+
+      // The declared models have to be known before the agents using them are created
+      for (const problem of await registerDeclaredModels(models)) {
+        info(`Invalid model declaration in ${problem}`);
+      }
+
+      // The command line concurrency takes precedence over the configured one
+      if (schedulerConfig?.concurrency !== undefined && !isPositiveInteger(schedulerConfig.concurrency)) {
+        usageError(`Invalid scheduler concurrency in agents.yaml: ${schedulerConfig.concurrency} (expected a positive whole number)`);
+      }
+      this.scheduler.configure({
+        concurrency: this.configuredConcurrency ?? schedulerConfig?.concurrency,
+        maxDepth: schedulerConfig?.max_depth,
+        maxPrompts: schedulerConfig?.max_prompts,
+        maxRepeats: schedulerConfig?.max_repeats,
+        requestTimeout: schedulerConfig?.request_timeout !== undefined ? schedulerConfig.request_timeout * 1000 : undefined,
+        maxSpawned: schedulerConfig?.max_spawned,
+        autoDispatch: schedulerConfig?.auto_dispatch,
+        budget: budget && toBudget(budget),
+        agentBudgets: Object.fromEntries(agentConfigs.filter((config) => config.budget).map((config) => [config.name, toBudget(config.budget!)])),
+        retryPolicies: retry && Object.fromEntries(Object.entries(retry).map(([provider, config]) => [provider, toRetryPolicy(config)])),
+        approvalPolicies: Object.fromEntries(agentConfigs.filter((config) => config.approval).map((config) => [config.name, config.approval!])),
+      });
 
       // Default model name to use if not specified
       const defaultModel = modelName || DEFAULT_MODEL;
@@ -136,6 +207,8 @@ class AgentCLI {
           undefined, // Use default tools
           primaryConfig.aware_of || [],
           this.scheduler,
+          undefined,
+          agentModelOptions(primaryConfig),
         );
 
         // Add the primary agent to the agents map
@@ -167,6 +240,8 @@ class AgentCLI {
             undefined, // Use default tools
             config.aware_of || [],
             this.scheduler,
+            undefined,
+            agentModelOptions(config),
           );
 
           // Add to the agents map
@@ -183,6 +258,25 @@ class AgentCLI {
       }
 
       debugPrefix("CLI", `Loaded ${this.agents.size} agents in total (including primary)`);
+
+      if (compaction) {
+        const policy = toCompactionPolicy(compaction);
+        this.agents.forEach((agent) => agent.compaction = policy);
+      }
+
+      for (const config of agentConfigs.filter((config) => config.tool_protocol)) {
+        const agent = this.agents.get(config.name);
+        if (agent) {
+          agent.toolProtocol = config.tool_protocol!;
+        }
+      }
+
+      for (const config of agentConfigs.filter((config) => config.fallback_models)) {
+        const agent = this.agents.get(config.name);
+        if (agent) {
+          agent.fallbackModels = agentFallbackModels(config);
+        }
+      }
     } catch (e) {
       info(`Error loading agents: ${e instanceof Error ? e.message : String(e)}`);
       throw e; // Re-throw to handle in initialize()
@@ -208,14 +302,20 @@ class AgentCLI {
   }
 
   /**
-   * Load agent context from file
+   * Load agent context and long-term memory from file
    */
   private async loadAgentContext(agentName: string): Promise<void> {
     const contextFile = `${this.contextDir}/${agentName.toLowerCase()}.json`;
+    const memoryFile = `${this.memoryDir}/${agentName.toLowerCase()}.json`;
     const agent = this.agents.get(agentName);
 
     if (agent) {
       await agent.loadContext(contextFile);
+      try {
+        await agent.memory.load(memoryFile);
+      } catch (e) {
+        info(`Error loading memory from ${memoryFile}, new memories are not saved: ${e instanceof Error ? e.message : String(e)}`);
+      }
     } else {
       info(`Agent ${agentName} not found, can't load context`);
     }
@@ -236,11 +336,34 @@ class AgentCLI {
   }
 
   /**
-   * Save all agent contexts
+   * Load the blackboard of the session - when it can't be read the session starts with an empty one that is not saved, leaving the file as it is
+   */
+  private async loadBoard(): Promise<void> {
+    try {
+      await this.scheduler.board.load(this.boardFile);
+    } catch (e) {
+      info(`Error loading the blackboard from ${this.boardFile}, changes are not saved: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  /**
+   * Load the task board of the project - when it can't be read the session starts with an empty one that is not saved, leaving the file as it is
+   */
+  private async loadTasks(): Promise<void> {
+    try {
+      await this.scheduler.tasks.load(this.tasksFile);
+    } catch (e) {
+      info(`Error loading the task board from ${this.tasksFile}, changes are not saved: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  /**
+   * Save all agent contexts, and wait for the blackboard, the task board, the memories and the transcript to be saved
    */
   private async saveAllContexts(): Promise<void> {
     const promises = Array.from(this.agents.keys()).map((name) => this.saveAgentContext(name));
-    await Promise.all(promises);
+    const memories = Array.from(this.agents.values()).map((agent) => agent.memory.flush());
+    await Promise.all([...promises, ...memories, this.scheduler.board.flush(), this.scheduler.tasks.flush(), this.transcript.flush()]);
     info("All agent contexts saved");
   }
 
@@ -272,7 +395,7 @@ class AgentCLI {
    * Process command for special commands like /clear
    * @returns true if the command was handled as a special command
    */
-  private processSpecialCommands(input: string): boolean {
+  private async processSpecialCommands(input: string): Promise<boolean> {
     const trimmedInput = input.trim();
     const parts = trimmedInput.split(" ");
     const command = parts[0];
@@ -296,11 +419,91 @@ class AgentCLI {
       return true;
     }
 
+    if (command === "/compact") {
+      // Compact the conversation of one agent, or of all agents
+      const agents = parts.length > 1 ? [this.scheduler.getAgent(parts[1])] : this.scheduler.getAgents();
+      for (const agent of agents) {
+        if (!agent) {
+          info(`Agent ${parts[1]} not found`);
+        } else if (this.scheduler.getActiveAgents().includes(agent.name)) {
+          info(`${agent.name} is working, compact its conversation once it is idle`);
+        } else {
+          await this.compactAgent(agent);
+        }
+      }
+      return true;
+    }
+
     if (command === "/agents") {
       // List all available agents
       info("Available agents:");
-      for (const [name, agent] of this.agents.entries()) {
-        info(`  ${name} - ${agent.bio}`);
+      for (const agent of this.scheduler.getAgents()) {
+        const parent = agent.parent ? ` (spawned by ${agent.parent})` : "";
+        const model = agent.modelName !== agent.initialModelName ? `${agent.modelName}, falling back from ${agent.initialModelName}` : agent.modelName;
+        info(`  ${agent.name}${parent} [${model}] - ${agent.bio}`);
+      }
+      return true;
+    }
+
+    if (command === "/models") {
+      await printModels();
+      return true;
+    }
+
+    if (command === "/pending") {
+      // Show the requests between agents - only the open ones unless "all" is given
+      const showAll = parts[1] === "all";
+      const entries = this.scheduler.getLedger().filter((entry) => showAll || entry.status === "pending");
+      if (entries.length === 0) {
+        info(showAll ? "No requests between agents yet" : "No pending requests");
+      } else {
+        info(showAll ? "Requests between agents:" : "Pending requests:");
+        for (const entry of entries) {
+          const age = Math.round(((entry.resolvedAt ?? new Date()).getTime() - entry.createdAt.getTime()) / 1000);
+          const message = entry.message.length > 60 ? `${entry.message.substring(0, 60)}...` : entry.message;
+          info(`  ${entry.id} ${entry.from} → ${entry.to} [${entry.status}] ${age}s - ${message}`);
+        }
+      }
+      return true;
+    }
+
+    if (command === "/usage") {
+      // Show the tokens and cost used by each agent and each user request
+      const usage = this.scheduler.getUsage();
+      const total = usage.getTotal();
+      if (total.calls === 0) {
+        info("No model calls yet");
+        return true;
+      }
+
+      info("Usage by agent:");
+      for (const [name, totals] of usage.byAgent()) {
+        info(`  ${name} - ${formatUsage(totals)}`);
+      }
+      info("Usage by request:");
+      for (const [requestId, totals] of usage.byRequest()) {
+        info(`  Request ${requestId} - ${formatUsage(totals)}`);
+      }
+      info(`Total - ${formatUsage(total)}`);
+      return true;
+    }
+
+    if (command === "/board") {
+      this.processBoardCommand(parts[1], parts[2], parts.slice(3).join(" "));
+      return true;
+    }
+
+    if (command === "/tasks") {
+      this.processTasksCommand(parts[1], parts.slice(2));
+      return true;
+    }
+
+    if (command === "/memory") {
+      const agent = parts[1] ? this.scheduler.getAgent(parts[1]) : this.primaryAgent;
+      if (!agent) {
+        info(`Agent ${parts[1]} not found`);
+      } else {
+        this.processMemoryCommand(agent, parts[2], parts.slice(3));
       }
       return true;
     }
@@ -324,18 +527,271 @@ class AgentCLI {
 
     if (command === "/help") {
       info("Available commands:");
-      info("  /clear [agent] - Clear conversation context (for all agents or a specific one)");
-      info("  /agents        - List all available agents");
-      info("  /use [agent]   - Change the primary agent");
-      info("  /help          - Show this help message");
-      info("  exit           - Exit the application");
-      info("  quit           - Exit the application");
+      info("  /clear [agent]   - Clear conversation context (for all agents or a specific one)");
+      info("  /compact [agent] - Summarise older conversation to save tokens (for all agents or a specific one)");
+      info("  /agents          - List all available agents");
+      info("  /models          - List the models and whether they are available");
+      info("  /pending [all]   - Show the requests between agents that are waiting for a reply");
+      info("  /usage           - Show the tokens and cost used by each agent and request");
+      info("  /board [...]     - Show and edit the blackboard, see /board help");
+      info("  /tasks [...]     - Show and edit the task board, see /tasks help");
+      info("  /memory [agent]  - Show and edit an agent's memory, see /memory <agent> help");
+      info("  /use [agent]     - Change the primary agent");
+      info("  /help            - Show this help message");
+      info("  exit             - Exit the application");
+      info("  quit             - Exit the application");
       return true;
     }
 
     return false;
   }
 
+  /**
+   * Show or edit the blackboard - changes are made as "user" and are not announced to the agents watching the keys
+   * @param subcommand list, get, put, append, delete, clear or help
+   * @param key The key of the entry, or the prefix to list
+   * @param text The text of put and append, with \n for new lines
+   */
+  private processBoardCommand(subcommand: string | undefined, key: string | undefined, text: string): void {
+    const board = this.scheduler.board;
+    const value = text.replaceAll("\\n", "\n");
+
+    switch (subcommand ?? "list") {
+      case "list": {
+        const entries = board.list(key);
+        if (entries.length === 0) {
+          info("The blackboard is empty");
+        }
+        for (const entry of entries) {
+          const firstLine = entry.value.split("\n")[0];
+          const preview = firstLine.length > 60 ? `${firstLine.substring(0, 60)}...` : firstLine;
+          info(`  ${entry.key} v${entry.version} by ${entry.author} - ${preview}`);
+        }
+        return;
+      }
+      case "get": {
+        const entry = key ? board.get(key) : undefined;
+        if (!entry) {
+          info(key ? `No entry ${key}` : "Usage: /board get <key>");
+          return;
+        }
+        info(`${entry.key} v${entry.version} by ${entry.author} at ${entry.updatedAt.toLocaleString()}`);
+        entry.value.split("\n").forEach((line) => info(`  ${line}`));
+        return;
+      }
+      case "put":
+      case "append": {
+        if (!key || !text) {
+          info(`Usage: /board ${subcommand} <key> <text>`);
+          return;
+        }
+        const entry = subcommand === "put" ? board.put(key, value, "user") : board.append(key, value, "user");
+        info(`${entry.key} is now at version ${entry.version}`);
+        return;
+      }
+      case "delete":
+        info(key && board.delete(key) ? `Deleted ${key}` : `No entry ${key ?? ""}`);
+        return;
+      case "clear":
+        board.clear();
+        info("Cleared the blackboard");
+        return;
+      default:
+        info("Blackboard commands:");
+        info("  /board [list] [prefix]     - List the entries, or those whose keys start with the prefix");
+        info("  /board get <key>           - Show an entry");
+        info("  /board put <key> <text>    - Create or replace an entry, use \\n for new lines");
+        info("  /board append <key> <text> - Add a line to an entry");
+        info("  /board delete <key>        - Delete an entry");
+        info("  /board clear               - Delete all entries");
+    }
+  }
+
+  /**
+   * Show or edit the task board - changes are made as "user" and don't dispatch tasks, /tasks dispatch sends the ready ones
+   * @param subcommand list, show, add, assign, status, remove, clear, dispatch or help
+   * @param args The words after the subcommand
+   */
+  private processTasksCommand(subcommand: string | undefined, args: string[]): void {
+    const tasks = this.scheduler.tasks;
+    const id = Number(args[0]);
+
+    try {
+      switch (subcommand ?? "list") {
+        case "list": {
+          const all = tasks.list();
+          if (all.length === 0) {
+            info("The task board is empty");
+          }
+          for (const status of TASK_STATUSES) {
+            const group = all.filter((task) => task.status === status);
+            if (group.length > 0) {
+              info(`${status.replace("_", " ")}:`);
+              group.forEach((task) => {
+                const blockers = status === "done" ? [] : tasks.blockers(task);
+                const waiting = blockers.length > 0 ? ` (waiting for ${blockers.join(", ")})` : "";
+                info(`  ${task.id}. ${task.title} - ${task.assignee ?? "unassigned"}${waiting}`);
+              });
+            }
+          }
+          return;
+        }
+        case "show": {
+          const task = tasks.get(id);
+          if (!task) {
+            info(args[0] ? `No task ${args[0]}` : "Usage: /tasks show <id>");
+            return;
+          }
+          info(
+            `${task.id}. ${task.title} [${task.status}] - ${
+              task.assignee ?? "unassigned"
+            }, last changed by ${task.author} at ${task.updatedAt.toLocaleString()}`,
+          );
+          if (task.dependencies.length > 0) {
+            info(`  Depends on: ${task.dependencies.join(", ")}`);
+          }
+          task.criteria.forEach((criterion) => info(`  Criterion: ${criterion}`));
+          task.notes.forEach((note) => info(`  Note: ${note}`));
+          return;
+        }
+        case "add":
+          if (args.length === 0) {
+            info("Usage: /tasks add <title>");
+            return;
+          }
+          info(`Added task ${tasks.create({ title: args.join(" ") }, "user").id}`);
+          return;
+        case "assign":
+          if (args.length < 2) {
+            info("Usage: /tasks assign <id> <agent>");
+            return;
+          }
+          tasks.update(id, { assignee: args[1] }, "user");
+          info(`Assigned task ${id} to ${args[1]}`);
+          return;
+        case "status":
+          if (args.length < 2 || !TASK_STATUSES.includes(args[1] as TaskStatus)) {
+            info(`Usage: /tasks status <id> <${TASK_STATUSES.join("|")}>`);
+            return;
+          }
+          tasks.update(id, { status: args[1] as TaskStatus }, "user");
+          info(`Task ${id} is now ${args[1]}`);
+          return;
+        case "remove":
+          info(tasks.remove(id) ? `Removed task ${id}` : `No task ${args[0] ?? ""}`);
+          return;
+        case "clear":
+          tasks.clear();
+          info("Cleared the task board");
+          return;
+        case "dispatch": {
+          const dispatched = this.scheduler.dispatchReadyTasks();
+          info(dispatched.length > 0 ? `Sent ${dispatched.map((task) => task.id).join(", ")} to their assignees` : "No tasks are ready");
+          return;
+        }
+        default:
+          info("Task board commands:");
+          info("  /tasks [list]                - Show the tasks by status");
+          info("  /tasks show <id>             - Show a task with its criteria and notes");
+          info("  /tasks add <title>           - Add a task");
+          info("  /tasks assign <id> <agent>   - Assign a task to an agent");
+          info(`  /tasks status <id> <status>  - Change the status of a task: ${TASK_STATUSES.join(", ")}`);
+          info("  /tasks remove <id>           - Remove a task");
+          info("  /tasks clear                 - Remove all tasks");
+          info("  /tasks dispatch              - Send the ready tasks to their assignees");
+      }
+    } catch (e) {
+      info(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  /**
+   * Compact the conversation of an agent by hand, the savings are reported with the scheduler's events
+   */
+  private async compactAgent(agent: Agent): Promise<void> {
+    try {
+      const result = await agent.compact(true);
+      if (!result) {
+        info(`The conversation of ${agent.name} can't be compacted`);
+      } else if (result.truncatedOutputs === 0 && result.summarisedMessages === 0) {
+        info(`Nothing to compact for ${agent.name} (about ${result.before} tokens)`);
+      }
+    } catch (e) {
+      info(`Error compacting the conversation of ${agent.name}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+
+  /**
+   * Show or edit the long-term memory of an agent
+   * @param subcommand list, search, add, edit, forget, prune, export or help
+   * @param args The words after the subcommand
+   */
+  private processMemoryCommand(agent: Agent, subcommand: string | undefined, args: string[]): void {
+    const memory = agent.memory;
+    const id = Number(args[0]);
+
+    switch (subcommand ?? "list") {
+      case "list":
+      case "search": {
+        const memories = subcommand === "search" ? memory.search(args.join(" "), memory.size) : memory.list();
+        if (memories.length === 0) {
+          info(subcommand === "search" ? "No memories found" : `${agent.name} has no memories`);
+        }
+        for (const { id, text, recalls } of memories) {
+          info(`  [${id}] ${text} (recalled ${recalls} time${recalls === 1 ? "" : "s"})`);
+        }
+        return;
+      }
+      case "add":
+        if (args.length === 0) {
+          info("Usage: /memory <agent> add <text>");
+          return;
+        }
+        info(`Added memory ${memory.add(args.join(" ")).id}`);
+        return;
+      case "edit":
+        if (args.length < 2) {
+          info("Usage: /memory <agent> edit <id> <text>");
+          return;
+        }
+        info(memory.update(id, args.slice(1).join(" ")) ? `Changed memory ${id}` : `No memory ${args[0]}`);
+        return;
+      case "forget":
+        info(memory.remove(id) ? `Forgot memory ${id}` : `No memory ${args[0] ?? ""}`);
+        return;
+      case "prune": {
+        if (!(id >= 0)) {
+          info("Usage: /memory <agent> prune <number to keep>");
+          return;
+        }
+        const removed = memory.prune(id);
+        info(`Removed ${removed.length} memor${removed.length === 1 ? "y" : "ies"}, keeping the ${memory.size} most recently used`);
+        return;
+      }
+      case "export":
+        if (!args[0]) {
+          info("Usage: /memory <agent> export <file>");
+          return;
+        }
+        try {
+          Deno.writeTextFileSync(args[0], memory.export());
+          info(`Exported ${memory.size} memories to ${args[0]}`);
+        } catch (e) {
+          info(`Error exporting memories: ${e instanceof Error ? e.message : String(e)}`);
+        }
+        return;
+      default:
+        info("Memory commands:");
+        info("  /memory <agent> [list]            - List the memories");
+        info("  /memory <agent> search <query>    - List the memories most relevant to the query");
+        info("  /memory <agent> add <text>        - Add a memory");
+        info("  /memory <agent> edit <id> <text>  - Change a memory");
+        info("  /memory <agent> forget <id>       - Remove a memory");
+        info("  /memory <agent> prune <keep>      - Keep only the given number of most recently used memories");
+        info("  /memory <agent> export <file>     - Write the memories to a JSON file");
+    }
+  }
+
   /**
    * Handle user input
    */
@@ -353,7 +809,7 @@ class AgentCLI {
 
     // Process special commands
     if (input.startsWith("/")) {
-      if (this.processSpecialCommands(input)) {
+      if (await this.processSpecialCommands(input)) {
         return true; // Continue the REPL loop after handling special command
       }
     }
@@ -362,34 +818,75 @@ class AgentCLI {
 
     this.primaryAgent.prompt(input);
 
-    await this.scheduler.processQueue();
+    // Ctrl+C aborts this controller to cancel the work
+    this.currentAbortController = new AbortController();
+    this.promptInProgress = true;
+    const startedAt = Date.now();
+    try {
+      const cancelled = await this.scheduler.processQueue(this.currentAbortController.signal);
+      this.reportCancelled(cancelled);
+      this.reportCompletedTasks(startedAt);
+    } finally {
+      this.currentAbortController = null;
+      this.promptInProgress = false;
+    }
 
     return true; // Continue the REPL loop
   };
 
+  /**
+   * Show the prompts that were cancelled
+   */
+  private reportCancelled(cancelled: CancelledPrompt[]): void {
+    if (cancelled.length === 0) {
+      return;
+    }
+
+    info("Cancelled:");
+    for (const { item, inProgress } of cancelled) {
+      info(`  ${item.agent.name} (${inProgress ? "in progress" : "queued"}): ${describePrompt(item.prompt, 60)}`);
+    }
+  }
+
+  /**
+   * Show a summary of the user requests whose task was completed
+   */
+  private reportCompletedTasks(startedAt: number): void {
+    const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+
+    for (const [requestId, agentName] of this.completedTasks) {
+      const requests = this.scheduler.getLedger().filter((entry) => entry.trace.requestId === requestId);
+      const agents = new Set([agentName, ...requests.flatMap((entry) => [entry.from, entry.to])]);
+      const usage = this.scheduler.getUsage().forRequest(requestId);
+
+      const agentCount = `${agents.size} agent${agents.size === 1 ? "" : "s"}`;
+      const requestCount = `${requests.length} request${requests.length === 1 ? "" : "s"} between agents`;
+
+      info(`✔ Task completed by ${agentName} in ${seconds}s`);
+      info(`  ${agentCount}, ${requestCount}, ${formatUsage(usage)}`);
+    }
+
+    this.completedTasks.clear();
+  }
+
   /**
    * Handle Ctrl+C interruption
    */
   private handleInterrupt = (): void => {
-    // Check if an abort controller is active and abort it
+    // Cancel the work in progress - the REPL continues once the agents have wound down
     if (this.currentAbortController) {
-      this.currentAbortController.abort();
-      this.currentAbortController = null;
-    }
-    
-    // Reset the promptInProgress flag to ensure we're not stuck waiting
-    this.promptInProgress = false;
-    
-    // Clear the spinner if it's active
-    if (typeof spinner !== 'undefined' && spinner.isSpinning) {
-      stopSpinner();
+      if (!this.currentAbortController.signal.aborted) {
+        info("Cancelling...");
+        this.currentAbortController.abort();
+      }
+      return;
     }
-    
+
     // Add a new line and reset the input
     Deno.stdout.writeSync(new TextEncoder().encode("\n"));
     this.currentInput = "";
     this.cursorPos = 0;
-    
+
     // Re-render the prompt to indicate we're ready for new input
     console.log(`\n${this.primaryAgent.name}> `);
   };
@@ -401,7 +898,7 @@ class AgentCLI {
     // Clear the current line
     Deno.stdout.writeSync(new TextEncoder().encode("\r\x1b[K"));
     // Render the prompt and current input
-    Deno.stdout.writeSync(new TextEncoder().encode(`${this.primaryAgent.name}> ${this.currentInput}`));
+    Deno.stdout.writeSync(new TextEncoder().encode(`${this.inputPrompt}${this.currentInput}`));
     // Position the cursor
     if (this.cursorPos < this.currentInput.length) {
       Deno.stdout.writeSync(new TextEncoder().encode(`\x1b[${this.currentInput.length - this.cursorPos}D`));
@@ -504,17 +1001,29 @@ class AgentCLI {
       }
     }
 
+    // Return exit if we reach EOF
+    return await this.readLine(`${this.primaryAgent.name}> `) ?? "exit";
+  }
+
+  /**
+   * Read a line of input in raw mode
+   * @param prompt Shown in front of the input
+   * @param signal Stops the reading when aborted
+   * @returns The line, or null at the end of the input or when the signal aborts
+   */
+  private async readLine(prompt: string, signal?: AbortSignal): Promise<string | null> {
     // Set terminal to raw mode
     Deno.stdin.setRaw(true);
 
     try {
+      this.inputPrompt = prompt;
       this.currentInput = "";
       this.cursorPos = 0;
       this.renderInput();
 
       const buffer = new Uint8Array(8);
 
-      while (true) {
+      while (!signal?.aborted) {
         const n = await Deno.stdin.read(buffer);
         if (n === null) break; // EOF
 
@@ -524,22 +1033,202 @@ class AgentCLI {
         }
       }
 
-      return "exit"; // Return exit if we reach EOF
+      return null;
     } finally {
       // Reset terminal to cooked mode
       Deno.stdin.setRaw(false);
     }
   }
 
+  /**
+   * Put an agent's question to the user - one question at a time, while the other agents carry on working
+   */
+  private askUser = (userQuestion: UserQuestion, signal?: AbortSignal): Promise<string> => {
+    return this.oneAtATime(() => this.readAnswer(userQuestion, signal));
+  };
+
+  /**
+   * Ask the user to approve an agent's tool call, in turn with the agents' questions
+   */
+  private askApproval = (request: ToolApprovalRequest, signal?: AbortSignal): Promise<ApprovalAnswer> => {
+    return this.oneAtATime(() => this.readApproval(request, signal));
+  };
+
+  /**
+   * Run an interaction with the user once the previous ones have finished
+   */
+  private oneAtATime<T>(interaction: () => Promise<T>): Promise<T> {
+    const result = this.pendingQuestion.then(interaction);
+    this.pendingQuestion = result.catch(() => undefined);
+    return result;
+  }
+
+  private async readApproval(request: ToolApprovalRequest, signal?: AbortSignal): Promise<ApprovalAnswer> {
+    signal?.throwIfAborted();
+
+    pauseActivities();
+    try {
+      const args = request.args.map((arg) => JSON.stringify(arg)).join(", ");
+      approvalRequest(request.agent.name, `${request.call.tool}.${request.call.function}(${args})`, request.risk);
+
+      while (true) {
+        const choice = await this.readLine("[y] approve once, [a] approve always, [n] reject> ", signal);
+        if (choice === null) {
+          throw new Error("the approval was cancelled");
+        }
+
+        switch (choice.trim().toLowerCase()) {
+          case "y":
+            return { approved: true, always: false };
+          case "a":
+            return { approved: true, always: true };
+          case "n": {
+            const reason = await this.readLine("Reason> ", signal);
+            if (reason === null) {
+              throw new Error("the approval was cancelled");
+            }
+            return { approved: false, reason: reason.trim() || "no reason given" };
+          }
+        }
+      }
+    } finally {
+      resumeActivities();
+    }
+  }
+
+  private async readAnswer(userQuestion: UserQuestion, signal?: AbortSignal): Promise<string> {
+    signal?.throwIfAborted();
+
+    pauseActivities();
+    try {
+      question(userQuestion.agent.name, userQuestion.question);
+      const answer = await this.readLine(`Answer for ${userQuestion.agent.name}> `, signal);
+      if (answer === null) {
+        throw new Error("the question was cancelled");
+      }
+      return answer;
+    } finally {
+      resumeActivities();
+    }
+  }
+
+  /**
+   * Run a single prompt without the REPL, for scripts and CI
+   * The agents work until the queue drains, the primary agent signals TOOL:done() or the time limit is reached,
+   * and the primary agent's final answer is printed
+   * @param prompt The prompt for the primary agent
+   * @param maxDuration The time limit in milliseconds
+   * @param userAnswer The answer to any question the agents ask the user, without it a question fails the run
+   * @returns The exit code for the process
+   */
+  public async runBatch(prompt: string, maxDuration?: number, userAnswer?: string): Promise<number> {
+    const primaryAgent = this.primaryAgent;
+    const controller = new AbortController();
+    let answer: string | undefined;
+    let done = false;
+    let timedOut = false;
+    let interrupted = false;
+    let unanswered: UserQuestion | undefined;
+
+    // There is nobody to ask in batch mode
+    this.scheduler.setUserQuestionHandler((userQuestion) => {
+      if (userAnswer !== undefined) {
+        info(`${userQuestion.agent.name} asked the user: ${userQuestion.question}`);
+        info(`Answered with the default answer: ${userAnswer}`);
+        return Promise.resolve(userAnswer);
+      }
+
+      unanswered = userQuestion;
+      controller.abort();
+      return Promise.reject(new Error("there is no user to answer questions in batch mode"));
+    });
+
+    const subscriptions = [
+      // The answer is what the primary agent says without calling a tool, an agent or the user, or says as it finishes
+      this.scheduler.events.on("agent:response", ({ agent, message }) => {
+        const calls = (message.function_calls?.length ?? 0) + (message.agent_calls?.length ?? 0) + (message.user_calls?.length ?? 0);
+        const text = message.content.replace("[Task completed]", "").trim();
+        if (agent === primaryAgent && calls === 0 && text !== "") {
+          answer = text;
+        }
+      }),
+      // The primary agent has finished - stop whatever the other agents are still doing
+      this.scheduler.events.on("task:done", ({ agent, trace }) => {
+        if (agent === primaryAgent && trace.ancestry.length === 0) {
+          done = true;
+          controller.abort();
+        }
+      }),
+    ];
+
+    const timer = maxDuration !== undefined
+      ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, maxDuration)
+      : undefined;
+
+    const interrupt = () => {
+      interrupted = true;
+      controller.abort();
+    };
+    Deno.addSignalListener("SIGINT", interrupt);
+
+    primaryAgent.prompt(prompt);
+    try {
+      const startedAt = Date.now();
+      const cancelled = await this.scheduler.processQueue(controller.signal);
+      if (!done) {
+        this.reportCancelled(cancelled);
+      }
+      this.reportCompletedTasks(startedAt);
+    } finally {
+      clearTimeout(timer);
+      Deno.removeSignalListener("SIGINT", interrupt);
+      subscriptions.forEach((unsubscribe) => unsubscribe());
+    }
+
+    await this.saveAllContexts();
+
+    if (unanswered) {
+      info(`${unanswered.agent.name} asked the user "${unanswered.question}", but there is no user to answer in batch mode.`);
+      info("Use --user-answer to give a default answer to the agents' questions.");
+    } else if (timedOut) {
+      info(`Stopped after the maximum duration of ${maxDuration! / 1000}s`);
+    } else if (interrupted) {
+      info("Interrupted");
+    } else if (!done && answer === undefined) {
+      info(`${primaryAgent.name} did not produce an answer`);
+    }
+
+    if (answer !== undefined) {
+      console.log(answer);
+    }
+
+    if (unanswered) {
+      return EXIT_FAILURE;
+    }
+    if (timedOut) {
+      return EXIT_TIMEOUT;
+    }
+    if (interrupted) {
+      return EXIT_INTERRUPTED;
+    }
+    return done || answer !== undefined ? EXIT_SUCCESS : EXIT_FAILURE;
+  }
+
   /**
    * Start the CLI REPL loop
    */
   public async start(): Promise<void> {
     // Set up Ctrl+C handler
     Deno.addSignalListener("SIGINT", this.handleInterrupt);
+    this.scheduler.setUserQuestionHandler(this.askUser);
+    this.scheduler.setApprovalHandler(this.askApproval);
 
     console.log(`🤖 H3 Multi-Agent CLI - Using ${this.primaryAgent.name} as primary agent`);
     console.log(`Type '/help' for commands, '/agents' to list available agents, or 'exit' to end session`);
+    console.log(`Recording the session to ${this.transcript.file}`);
 
     let continueLoop = true;
 
@@ -557,14 +1246,200 @@ class AgentCLI {
   }
 }
 
-// Parse command line arguments
-const args = parse(Deno.args, {
-  string: ["name", "model"],
-  default: { name: undefined, model: DEFAULT_MODEL },
-  alias: { n: "name", m: "model" },
-});
-
-// Start the CLI
-const cli = new AgentCLI(args.name, args.model);
-await cli.initialize();
-await cli.start();
+/**
+ * Convert a budget from agents.yaml to the scheduler's form
+ */
+function toBudget(config: BudgetConfig) {
+  return { maxTokens: config.max_tokens, maxCost: config.max_cost };
+}
+
+/**
+ * Convert the retry settings of a provider from agents.yaml to the scheduler's form
+ */
+function toRetryPolicy(config: RetryConfig) {
+  return {
+    maxRetries: config.max_retries,
+    initialDelay: config.initial_delay !== undefined ? config.initial_delay * 1000 : undefined,
+    maxDelay: config.max_delay !== undefined ? config.max_delay * 1000 : undefined,
+  };
+}
+
+/**
+ * The model options of an agent from agents.yaml, invalid options are reported and ignored
+ */
+function agentModelOptions(config: AgentConfig): ModelOptions | undefined {
+  if (config.model_options === undefined) {
+    return undefined;
+  }
+  const problems = validateModelOptions(config.model_options);
+  if (problems.length > 0) {
+    info(`Ignoring the model_options of ${config.name}: ${problems.join(", ")}`);
+    return undefined;
+  }
+  return toModelOptions(config.model_options);
+}
+
+/**
+ * The fallback models of an agent from agents.yaml, unknown models are reported and left out
+ */
+function agentFallbackModels(config: AgentConfig): string[] {
+  if (!Array.isArray(config.fallback_models)) {
+    info(`Ignoring the fallback_models of ${config.name}: it must be a list of model names`);
+    return [];
+  }
+  const unknown = config.fallback_models.filter((name) => !hasModel(name));
+  if (unknown.length > 0) {
+    info(`Ignoring unknown fallback models of ${config.name}: ${unknown.join(", ")}`);
+  }
+  return config.fallback_models.filter(hasModel);
+}
+
+function toCompactionPolicy(config: CompactionConfig): CompactionPolicy {
+  return {
+    threshold: config.threshold ?? DEFAULT_COMPACTION_POLICY.threshold,
+    keepRecent: config.keep_recent ?? DEFAULT_COMPACTION_POLICY.keepRecent,
+    maxToolOutput: config.max_tool_output ?? DEFAULT_COMPACTION_POLICY.maxToolOutput,
+    summariser: config.summariser,
+  };
+}
+
+/**
+ * List the registered models, checking which ones are available right now
+ */
+async function printModels(): Promise<void> {
+  const models = listModels();
+  const availability = await Promise.all(models.map((model) => checkModel(model.name)));
+
+  info("Models:");
+  models.forEach((model, index) => {
+    const { available, detail } = availability[index];
+    const facts = [
+      model.provider + (model.modelId && model.modelId !== model.name ? ` ${model.modelId}` : ""),
+      ...(model.contextWindow !== undefined ? [`${model.contextWindow} tokens`] : []),
+      ...(model.pricing ? [`$${model.pricing.input}/$${model.pricing.output} per million tokens`] : []),
+      model.source ?? "built-in",
+    ];
+    info(`  ${available ? "✔" : "✘"} ${model.name} (${facts.join(", ")}) - ${detail}`);
+  });
+}
+
+/**
+ * Read the prompt for batch mode from --prompt, --prompt-file or piped stdin
+ * @returns undefined when the interactive REPL should be started instead
+ */
+async function readBatchPrompt(prompt?: string, promptFile?: string): Promise<string | undefined> {
+  if (prompt !== undefined) {
+    return prompt;
+  }
+  if (promptFile !== undefined) {
+    return await Deno.readTextFile(promptFile);
+  }
+  if (!Deno.stdin.isTerminal()) {
+    return await new Response(Deno.stdin.readable).text();
+  }
+  return undefined;
+}
+
+function isPositiveInteger(value: unknown): boolean {
+  return Number.isInteger(value) && (value as number) > 0;
+}
+
+/**
+ * Report a command line error and exit
+ */
+function usageError(message: string): never {
+  console.error(message);
+  Deno.exit(EXIT_USAGE);
+}
+
+/**
+ * Run the command line: a subcommand, a batch run or an interactive session
+ * Batch runs and subcommands end the process with their exit code.
+ */
+export async function main(argv: string[]): Promise<void> {
+  // Parse command line arguments
+  const args = parse(argv, {
+    string: ["name", "model", "concurrency", "prompt", "prompt-file", "max-duration", "user-answer", "session", "agent"],
+    boolean: ["step", "stream"],
+    default: { name: undefined, model: DEFAULT_MODEL, concurrency: undefined, step: true, stream: true },
+    alias: { n: "name", m: "model", c: "concurrency", p: "prompt" },
+  });
+
+  // Replay a recorded transcript instead of starting a session
+  if (args._[0] === "replay") {
+    if (args._[1] === undefined) {
+      usageError("Usage: replay <transcript.jsonl> [--agent name,...] [--no-step]");
+    }
+    const agents = args.agent?.split(",").map((name: string) => name.trim()).filter((name: string) => name !== "");
+    try {
+      await replay(String(args._[1]), { agents, step: args.step });
+    } catch (e) {
+      usageError(`Error replaying ${args._[1]}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    Deno.exit(EXIT_SUCCESS);
+  }
+
+  // List the models instead of starting a session
+  if (args._[0] === "models") {
+    if (args._[1] !== undefined && args._[1] !== "list") {
+      usageError("Usage: models [list]");
+    }
+    try {
+      const { models } = await loadConfig();
+      for (const problem of await registerDeclaredModels(models)) {
+        info(`Invalid model declaration in ${problem}`);
+      }
+    } catch (e) {
+      usageError(`Error loading the models: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    await printModels();
+    Deno.exit(EXIT_SUCCESS);
+  }
+
+  const maxDuration = args["max-duration"] !== undefined ? Number(args["max-duration"]) * 1000 : undefined;
+  if (maxDuration !== undefined && !(maxDuration > 0)) {
+    usageError(`Invalid --max-duration: ${args["max-duration"]} (expected a number of seconds)`);
+  }
+
+  const concurrency = args.concurrency !== undefined ? Number(args.concurrency) : undefined;
+  if (concurrency !== undefined && !isPositiveInteger(concurrency)) {
+    usageError(`Invalid --concurrency: ${args.concurrency} (expected a positive whole number)`);
+  }
+
+  if (args.session !== undefined && !/^[\w.-]+$/.test(args.session)) {
+    usageError(`Invalid --session: ${args.session} (expected letters, digits, ., - and _)`);
+  }
+
+  let batchPrompt: string | undefined;
+  try {
+    batchPrompt = await readBatchPrompt(args.prompt, args["prompt-file"]);
+  } catch (e) {
+    usageError(`Error reading prompt: ${e instanceof Error ? e.message : String(e)}`);
+  }
+  if (batchPrompt !== undefined && batchPrompt.trim() === "") {
+    usageError("The prompt is empty");
+  }
+
+  // Start the CLI - in batch mode when a prompt was given, otherwise interactively
+  // In batch mode stdout only gets the final answer, everything else goes to stderr
+  if (batchPrompt !== undefined) {
+    outputToStderr();
+  }
+  // Responses are streamed to a terminal, piped output only gets complete responses
+  const cli = new AgentCLI(
+    args.name,
+    args.model,
+    concurrency,
+    args.session,
+    args.stream && (batchPrompt !== undefined ? Deno.stderr : Deno.stdout).isTerminal(),
+  );
+  await cli.initialize();
+  if (batchPrompt !== undefined) {
+    Deno.exit(await cli.runBatch(batchPrompt.trim(), maxDuration, args["user-answer"]));
+  }
+  await cli.start();
+}
+
+if (import.meta.main) {
+  await main(Deno.args);
+}
@@ -1,27 +1,89 @@
 import { parse as parseYaml } from "https://deno.land/std@0.224.0/yaml/mod.ts";
 import { debugPrefix } from "../lib/cli.ts";
 import { AgentConfig } from "../agent/index.ts";
+import { type ModelConfig } from "./models.ts";
 
 /**
- * Load agent configurations from the agents.yaml file
+ * Scheduler settings from the optional scheduler section of agents.yaml
  */
-export async function loadAgentsConfig(): Promise<AgentConfig[]> {
+export interface SchedulerConfig {
+  concurrency?: number;
+  max_depth?: number;
+  max_prompts?: number;
+  max_repeats?: number;
+  /** Seconds to wait for a reply to an agent request */
+  request_timeout?: number;
+  /** Maximum number of agents spawned with the team tool while handling a single user request */
+  max_spawned?: number;
+  /** Send the tasks on the task board to their assignees as soon as their dependencies are done */
+  auto_dispatch?: boolean;
+}
+
+/**
+ * A limit on the tokens or cost used while handling a single user request
+ */
+export interface BudgetConfig {
+  max_tokens?: number;
+  /** US dollars */
+  max_cost?: number;
+}
+
+/**
+ * How failed requests to a model provider are retried
+ */
+export interface RetryConfig {
+  max_retries?: number;
+  /** Seconds to wait before the first retry */
+  initial_delay?: number;
+  /** Maximum seconds to wait between retries */
+  max_delay?: number;
+}
+
+/**
+ * When and how the agents' conversations are compacted to fit their models' context windows
+ */
+export interface CompactionConfig {
+  /** Compact once the conversation exceeds this fraction of the context window */
+  threshold?: number;
+  /** The number of most recent messages that are kept intact */
+  keep_recent?: number;
+  /** Older tool outputs are cut to this many characters */
+  max_tool_output?: number;
+  /** The model that summarises older messages, each agent's own model when not given */
+  summariser?: string;
+}
+
+export interface Config {
+  agents: AgentConfig[];
+  /** Models declared for this project, on top of those in the models.yaml files */
+  models?: ModelConfig[];
+  scheduler?: SchedulerConfig;
+  budget?: BudgetConfig;
+  /** Retry settings keyed by model provider, e.g. claude or ollama */
+  retry?: Record<string, RetryConfig>;
+  compaction?: CompactionConfig;
+}
+
+/**
+ * Load the configuration from the agents.yaml file
+ */
+export async function loadConfig(): Promise<Config> {
   try {
     // Read the YAML file
     const content = await Deno.readTextFile("./agents.yaml");
 
     // Parse the YAML content
-    const config = parseYaml(content) as { agents: AgentConfig[] };
+    const config = (parseYaml(content) || {}) as Partial<Config>;
 
     // Return the array of agent configurations
     const agents = config.agents || [];
     debugPrefix("Config", `Loaded ${agents.length} agents from configuration`);
 
-    return agents;
+    return { ...config, agents };
   } catch (e) {
     if (e instanceof Deno.errors.NotFound) {
       debugPrefix("Config", "agents.yaml file not found");
-      return [];
+      return { agents: [] };
     }
 
     debugPrefix("Config", `Error loading agents config: ${e instanceof Error ? e.message : String(e)}`);
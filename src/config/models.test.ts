@@ -0,0 +1,42 @@
+// Tests for models.ts
+import { assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { type ModelConfig, toModelDescription, validateModelConfig } from "./models.ts";
+
+Deno.test("validateModelConfig - accepts a complete declaration", () => {
+  const config: ModelConfig = {
+    name: "local-llama",
+    provider: "openai",
+    model_id: "llama-3.1-8b",
+    base_url: "http://localhost:8080/v1",
+    context_window: 32768,
+    pricing: { input: 0, output: 0 },
+    temperature: 0.2,
+    max_tokens: 4096,
+    top_p: 0.9,
+  };
+  assertEquals(validateModelConfig(config), []);
+});
+
+Deno.test("validateModelConfig - reports every problem of a declaration", () => {
+  const config = { name: "", provider: "gemini", context_window: 1.5, pricing: { input: 1 } } as unknown as ModelConfig;
+  assertEquals(validateModelConfig(config), [
+    "name is missing",
+    "provider must be one of ollama, claude, openai",
+    "context_window must be a positive whole number",
+    "pricing must have an input and an output price",
+  ]);
+});
+
+Deno.test("validateModelConfig - reports settings the provider does not support", () => {
+  assertEquals(validateModelConfig({ name: "llama", provider: "ollama", base_url: "http://localhost:8080" }), [
+    "base_url is not supported by ollama models",
+  ]);
+});
+
+Deno.test("toModelDescription - keeps the provider, model ID and where the model was declared", () => {
+  const model = toModelDescription({
+    config: { name: "sonnet", provider: "claude", model_id: "claude-3-5-sonnet-latest", pricing: { input: 3, output: 15 } },
+    source: "./models.yaml",
+  });
+  assertEquals([model.provider, model.modelId, model.pricing, model.source], ["claude", "claude-3-5-sonnet-latest", { input: 3, output: 15 }, "./models.yaml"]);
+});
@@ -0,0 +1,244 @@
+import { parse as parseYaml } from "https://deno.land/std@0.224.0/yaml/mod.ts";
+import { debugPrefix } from "../lib/cli.ts";
+import { claudeModel, type ModelDescription, type ModelOptions, ollamaModel, openAIModel, registerModel } from "../model/index.ts";
+
+export const MODEL_PROVIDERS = ["ollama", "claude", "openai"] as const;
+
+export type ModelProvider = typeof MODEL_PROVIDERS[number];
+
+/**
+ * Parameters of the requests to a model, the defaults of a declared model or the model_options of an agent
+ */
+export interface ModelOptionsConfig {
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  /** Sequences that end the response */
+  stop?: string[];
+  /** Options passed to Ollama as they are, e.g. num_ctx - ollama only */
+  ollama?: Record<string, unknown>;
+}
+
+/**
+ * A model declared in a models.yaml file or the models section of agents.yaml, which agents use by its name
+ */
+export interface ModelConfig extends ModelOptionsConfig {
+  name: string;
+  provider: ModelProvider;
+  description?: string;
+  /** The model as the provider knows it, the name when not given */
+  model_id?: string;
+  /** The maximum number of tokens of a request */
+  context_window?: number;
+  /** US dollars per million tokens */
+  pricing?: { input: number; output: number };
+  /** The URL the API's paths are relative to, e.g. http://localhost:8080/v1 - openai only */
+  base_url?: string;
+  /** The environment variable holding the API key - claude and openai only */
+  api_key_env?: string;
+  /** How often a response cut off at max_tokens is continued, 0 to never continue - claude only */
+  max_continuations?: number;
+}
+
+/**
+ * A model declaration and the file it comes from
+ */
+export interface DeclaredModel {
+  config: ModelConfig;
+  source: string;
+}
+
+/**
+ * The models.yaml files, in the order they are merged: a model in a later file replaces the model with the same name in an
+ * earlier one, and both replace a built-in model with that name
+ */
+export function modelFiles(): string[] {
+  const home = Deno.env.get("HOME") || Deno.env.get("USERPROFILE") || ".";
+  return [`${home}/.h3/models.yaml`, "./models.yaml"];
+}
+
+/**
+ * Read the models of a models.yaml file, a missing file has none
+ * @throws When the file is not valid YAML or has no models list
+ */
+export async function loadModelFile(file: string): Promise<ModelConfig[]> {
+  let content: string;
+  try {
+    content = await Deno.readTextFile(file);
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) {
+      return [];
+    }
+    throw e;
+  }
+
+  const parsed = parseYaml(content) as { models?: unknown } | null;
+  if (parsed === null || parsed.models === undefined) {
+    return [];
+  }
+  if (!Array.isArray(parsed.models)) {
+    throw new Error(`${file} has no models list`);
+  }
+  debugPrefix("Config", `Loaded ${parsed.models.length} models from ${file}`);
+  return parsed.models as ModelConfig[];
+}
+
+/**
+ * Check a model declaration
+ * @returns What is wrong with it, nothing for a valid declaration
+ */
+export function validateModelConfig(config: ModelConfig): string[] {
+  if (typeof config !== "object" || config === null) {
+    return ["a model must be a mapping"];
+  }
+
+  const problems: string[] = [];
+  if (typeof config.name !== "string" || config.name.trim() === "") {
+    problems.push("name is missing");
+  }
+  if (!MODEL_PROVIDERS.includes(config.provider)) {
+    problems.push(`provider must be one of ${MODEL_PROVIDERS.join(", ")}`);
+  }
+  for (const field of ["description", "model_id", "base_url", "api_key_env"] as const) {
+    if (config[field] !== undefined && typeof config[field] !== "string") {
+      problems.push(`${field} must be a string`);
+    }
+  }
+  if (config.context_window !== undefined && !(Number.isInteger(config.context_window) && config.context_window > 0)) {
+    problems.push("context_window must be a positive whole number");
+  }
+  if (config.max_continuations !== undefined && !(Number.isInteger(config.max_continuations) && config.max_continuations >= 0)) {
+    problems.push("max_continuations must be a whole number of at least 0");
+  }
+  problems.push(...validateModelOptions(config));
+  if (config.pricing !== undefined && !(typeof config.pricing?.input === "number" && typeof config.pricing?.output === "number")) {
+    problems.push("pricing must have an input and an output price");
+  }
+
+  // Settings the provider would silently ignore are most likely mistakes
+  const unsupported: Record<ModelProvider, (keyof ModelConfig)[]> = {
+    ollama: ["base_url", "api_key_env", "max_continuations"],
+    claude: ["base_url", "ollama"],
+    openai: ["ollama", "max_continuations"],
+  };
+  for (const field of unsupported[config.provider] ?? []) {
+    if (config[field] !== undefined) {
+      problems.push(`${field} is not supported by ${config.provider} models`);
+    }
+  }
+  return problems;
+}
+
+/**
+ * Check the parameters of the requests to a model
+ * @returns What is wrong with them, nothing for valid parameters
+ */
+export function validateModelOptions(options: ModelOptionsConfig): string[] {
+  if (typeof options !== "object" || options === null) {
+    return ["model options must be a mapping"];
+  }
+
+  const problems: string[] = [];
+  if (options.max_tokens !== undefined && !(Number.isInteger(options.max_tokens) && options.max_tokens > 0)) {
+    problems.push("max_tokens must be a positive whole number");
+  }
+  for (const field of ["temperature", "top_p"] as const) {
+    if (options[field] !== undefined && !(typeof options[field] === "number" && options[field]! >= 0)) {
+      problems.push(`${field} must be a number of at least 0`);
+    }
+  }
+  if (options.stop !== undefined && !(Array.isArray(options.stop) && options.stop.every((sequence) => typeof sequence === "string"))) {
+    problems.push("stop must be a list of strings");
+  }
+  if (options.ollama !== undefined && (typeof options.ollama !== "object" || options.ollama === null || Array.isArray(options.ollama))) {
+    problems.push("ollama must be a mapping of Ollama options");
+  }
+  return problems;
+}
+
+/**
+ * Convert the parameters of the requests to a model to the form the models take
+ */
+export function toModelOptions(options: ModelOptionsConfig): ModelOptions {
+  return { temperature: options.temperature, maxTokens: options.max_tokens, topP: options.top_p, stop: options.stop, ollama: options.ollama };
+}
+
+/**
+ * Create the description of a valid model declaration
+ */
+export function toModelDescription({ config, source }: DeclaredModel): ModelDescription {
+  const description = config.description ?? `${config.model_id ?? config.name} (${config.provider})`;
+  let model: ModelDescription;
+  switch (config.provider) {
+    case "ollama":
+      model = ollamaModel(config.name, description, config.context_window, { ...toModelOptions(config), modelId: config.model_id });
+      break;
+    case "claude":
+      model = claudeModel(
+        config.name,
+        description,
+        {
+          modelId: config.model_id ?? config.name,
+          apiKey: config.api_key_env ? Deno.env.get(config.api_key_env) : undefined,
+          temperature: config.temperature,
+          maxTokens: config.max_tokens,
+          topP: config.top_p,
+          stop: config.stop,
+          maxContinuations: config.max_continuations,
+        },
+        config.pricing,
+        config.context_window,
+      );
+      break;
+    case "openai":
+      model = openAIModel(
+        config.name,
+        description,
+        {
+          baseUrl: config.base_url,
+          apiKeyEnv: config.api_key_env,
+          modelId: config.model_id,
+          temperature: config.temperature,
+          maxTokens: config.max_tokens,
+          topP: config.top_p,
+          stop: config.stop,
+        },
+        config.pricing,
+        config.context_window,
+      );
+      break;
+  }
+  return { ...model, source };
+}
+
+/**
+ * Register the models declared in the models.yaml files, followed by those in the models section of agents.yaml
+ * Invalid declarations are skipped, and unreadable files are skipped as a whole.
+ *
+ * @param configured The models section of agents.yaml
+ * @returns The problems that were found, one line each
+ */
+export async function registerDeclaredModels(configured: ModelConfig[] = []): Promise<string[]> {
+  const declared: DeclaredModel[] = [];
+  const problems: string[] = [];
+
+  for (const file of modelFiles()) {
+    try {
+      declared.push(...(await loadModelFile(file)).map((config) => ({ config, source: file })));
+    } catch (e) {
+      problems.push(`${file}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }
+  declared.push(...configured.map((config) => ({ config, source: "./agents.yaml" })));
+
+  declared.forEach((model) => {
+    const modelProblems = validateModelConfig(model.config);
+    if (modelProblems.length > 0) {
+      const name = typeof model.config?.name === "string" ? model.config.name : "a model without a name";
+      problems.push(`${model.source}: skipping ${name}: ${modelProblems.join(", ")}`);
+      return;
+    }
+    registerModel(toModelDescription(model));
+  });
+  return problems;
+}
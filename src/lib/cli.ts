@@ -11,6 +11,24 @@ const spinner = ora({
   text: "",
 });
 
+// Where the output for the user goes, batch mode keeps stdout for the final answer
+let output: typeof Deno.stdout | typeof Deno.stderr = Deno.stdout;
+
+/**
+ * Send all output to stderr, so that a script reading stdout only gets what the caller prints there
+ */
+export function outputToStderr(): void {
+  output = Deno.stderr;
+}
+
+function log(...args: unknown[]): void {
+  if (output === Deno.stdout) {
+    console.log(...args);
+  } else {
+    console.error(...args);
+  }
+}
+
 // Fix DEBUG environment variable access
 const DEBUG = false || Deno.env.get("DEBUG") === "true" || Deno.env.get("HANDJIE_DEBUG") === "true";
 
@@ -35,16 +53,154 @@ export function stopSpinner(text?: string): void {
     spinner.succeed();
   }
 
-  // Ensure we have a newline after the spinner by writing directly to stdout
+  // Ensure we have a newline after the spinner by writing directly to the output
   // Force a flush by writing with a sync operation
-  Deno.stdout.writeSync(new TextEncoder().encode("\n"));
+  output.writeSync(new TextEncoder().encode("\n"));
 }
 
 export function failSpinner(text: string): void {
   spinner.fail(text);
 
-  // Ensure we have a newline after the spinner by writing directly to stdout
-  Deno.stdout.writeSync(new TextEncoder().encode("\n"));
+  // Ensure we have a newline after the spinner by writing directly to the output
+  output.writeSync(new TextEncoder().encode("\n"));
+}
+
+// Prompts currently being processed, keyed by an activity id, shown together by the spinner
+const activities: Map<string, string> = new Map();
+
+// Whether the spinner is hidden while the user types
+let activitiesPaused = false;
+
+// The agent whose response is being written as it streams in, the agents with a response streaming in,
+// and those of them whose response was not shown in full because the user was typing
+let streamingAgent: string | undefined;
+const streams: Set<string> = new Set();
+const incompleteStreams: Set<string> = new Set();
+
+/**
+ * Adds an activity to the spinner - several activities can be shown at once when agents run in parallel
+ */
+export function startActivity(id: string, text: string): void {
+  activities.set(id, text);
+  breakStream();
+
+  if (activitiesPaused) {
+    return;
+  } else if (spinner.isSpinning) {
+    spinner.text = activitiesText();
+  } else {
+    spinner.start(activitiesText());
+  }
+}
+
+/**
+ * Removes an activity from the spinner, marking it with a green tick
+ */
+export function stopActivity(id: string): void {
+  finishActivity(id, (text) => spinner.succeed(text));
+}
+
+/**
+ * Removes an activity from the spinner, marking it as failed with the given text
+ */
+export function failActivity(id: string, text: string): void {
+  finishActivity(id, () => spinner.fail(text));
+}
+
+function finishActivity(id: string, finish: (text: string) => void): void {
+  const text = activities.get(id);
+  if (text === undefined) {
+    return;
+  }
+
+  activities.delete(id);
+  breakStream();
+  finish(text);
+  output.writeSync(new TextEncoder().encode("\n"));
+
+  // Keep spinning for the activities that are still running
+  if (activities.size > 0 && !activitiesPaused) {
+    spinner.start(activitiesText());
+  }
+}
+
+/**
+ * Hides the spinner so that it doesn't overwrite what the user is typing, activities are still tracked
+ */
+export function pauseActivities(): void {
+  activitiesPaused = true;
+  if (spinner.isSpinning) {
+    spinner.stop();
+  }
+}
+
+/**
+ * Shows the spinner again for the activities that are still running
+ */
+export function resumeActivities(): void {
+  activitiesPaused = false;
+  if (activities.size > 0) {
+    spinner.start(activitiesText());
+  }
+}
+
+/**
+ * Show a piece of an agent's streamed response under its name, the spinner is hidden while the response streams in
+ */
+export function streamResponse(name: string, text: string): void {
+  streams.add(name);
+  if (activitiesPaused) {
+    // Writing now would mix the response with what the user is typing
+    incompleteStreams.add(name);
+    return;
+  }
+
+  if (spinner.isSpinning) {
+    spinner.stop();
+  }
+  if (streamingAgent !== name) {
+    breakStream();
+    write(`${chalk.green(name)}\n\n`);
+    streamingAgent = name;
+  }
+  write(text);
+}
+
+/**
+ * End the streamed response of an agent
+ * @returns Whether the whole response was shown, otherwise it still has to be shown with response()
+ */
+export function endStreamedResponse(name: string): boolean {
+  const shown = streams.has(name) && !incompleteStreams.has(name);
+  streams.delete(name);
+  incompleteStreams.delete(name);
+
+  if (streamingAgent === name) {
+    breakStream();
+    if (activities.size > 0 && !activitiesPaused) {
+      spinner.start(activitiesText());
+    }
+  }
+  return shown;
+}
+
+/**
+ * Finish the line of the response that is streaming in, so that other output starts on a new line
+ * The agent's name is shown again when more of its response arrives.
+ */
+function breakStream(): void {
+  if (streamingAgent !== undefined) {
+    write("\n\n");
+    streamingAgent = undefined;
+  }
+}
+
+function write(text: string): void {
+  output.writeSync(new TextEncoder().encode(text));
+}
+
+function activitiesText(): string {
+  return Array.from(activities.values()).join("\n") + "\n";
 }
 
 function toString(value: unknown): string {
@@ -77,24 +233,24 @@ function formatArgs(args: unknown[], color: ChalkFunction): string[] {
 
 export function debug(...args: unknown[]) {
   if (DEBUG) {
-    console.log(...formatArgs(args, chalk.gray));
+    log(...formatArgs(args, chalk.gray));
   }
 }
 
 export function debugPrefix(prefix: string, message: unknown) {
   if (DEBUG) {
     toString(message).split("\n").forEach((line) => {
-      console.log(chalk.gray(prefix), line);
+      log(chalk.gray(prefix), line);
     });
   }
 }
 
 export function info(...args: unknown[]) {
-  console.log(...formatArgs(args, chalk.gray));
+  log(...formatArgs(args, chalk.gray));
 }
 
 export function infoPrefix(prefix: string, ...args: unknown[]) {
-  console.log(chalk.blue(prefix), ...formatArgs(args, chalk.gray));
+  log(chalk.blue(prefix), ...formatArgs(args, chalk.gray));
 }
 
 /**
@@ -217,14 +373,34 @@ export function response(name: string, ...args: unknown[]) {
     const renderedLines = renderMarkdown(message);
 
     // Print agent name once with appropriate spacing
-    console.log(chalk.green(name));
+    log(chalk.green(name));
 
     // Add a small separator line between agent name and content for clearer separation
-    console.log("");
+    log("");
 
     // Print all rendered lines
     renderedLines.forEach((line) => {
-      console.log(line);
+      log(line);
     });
   });
 }
+
+/**
+ * Shows a question from an agent to the user
+ */
+export function question(name: string, text: string) {
+  log(chalk.yellow(`${name} asks:`));
+  log("");
+  renderMarkdown(text).forEach((line) => log(line));
+  log("");
+}
+
+/**
+ * Show a tool call that waits for the user's approval
+ */
+export function approvalRequest(name: string, call: string, risk: string) {
+  log(chalk.yellow(`${name} wants to call (${risk} risk):`));
+  log("");
+  log(`  ${chalk.bold(call)}`);
+  log("");
+}
@@ -0,0 +1,52 @@
+import { debugPrefix } from "./cli.ts";
+
+/**
+ * A JSON file holding the latest snapshot of some state, such as the entries of the blackboard
+ * Snapshots are written one at a time, so that an older snapshot never overwrites a newer one, to a temporary file that then
+ * replaces the file - a write that fails halfway leaves the previous snapshot in place.
+ */
+export class SnapshotFile<T> {
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * @param path The file
+   * @param prefix The debug prefix of the errors saving the file
+   */
+  constructor(public readonly path: string, private readonly prefix: string) {}
+
+  /**
+   * @returns The snapshot in the file, or undefined when there is no file yet
+   * @throws When the file can't be read or doesn't hold valid JSON
+   */
+  public async read(): Promise<T | undefined> {
+    try {
+      return JSON.parse(await Deno.readTextFile(this.path)) as T;
+    } catch (e) {
+      if (e instanceof Deno.errors.NotFound) {
+        return undefined;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Write a snapshot once the snapshots before it are written, errors are only reported as debug output
+   */
+  public write(snapshot: T): void {
+    const text = JSON.stringify(snapshot, null, 2);
+    const temporary = `${this.path}.tmp`;
+    this.saving = this.saving
+      .then(async () => {
+        await Deno.writeTextFile(temporary, text);
+        await Deno.rename(temporary, this.path);
+      })
+      .catch((e) => debugPrefix(this.prefix, `Error saving ${this.path}: ${e instanceof Error ? e.message : String(e)}`));
+  }
+
+  /**
+   * Wait for the pending writes
+   */
+  public async flush(): Promise<void> {
+    await this.saving;
+  }
+}
@@ -1,4 +1,4 @@
-import { Context, Model, type ToolResponses } from "./types.ts";
+import { Context, type GenerateOptions, Model, type ToolResponses } from "./types.ts";
 
 /**
  * Base Model class with context management capabilities
@@ -12,6 +12,10 @@ export abstract class BaseModel implements Model {
     this.systemMessage_ = Array.isArray(message) ? message.join("\n") : message;
   }
 
+  public getSystemMessage(): string {
+    return this.systemMessage_;
+  }
+
   /**
    * Gets the current conversation context
    */
@@ -33,6 +37,6 @@ export abstract class BaseModel implements Model {
     this.context = [];
   }
 
-  public abstract generateResponse(prompt: string | ToolResponses): Promise<string>;
+  public abstract generateResponse(prompt: string | ToolResponses, options?: GenerateOptions): Promise<string>;
   public abstract getModelName(): string;
 }
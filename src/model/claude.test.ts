@@ -0,0 +1,133 @@
+// Tests for claude.ts, against a stub of the messages API
+import { assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { claudeModel } from "./claude.ts";
+import { TruncatedResponseError } from "./errors.ts";
+import { type ModelOptions, type TokenUsage } from "./types.ts";
+import { toModelOptions } from "../config/models.ts";
+import { ResponseParser } from "../agent/response-parser.ts";
+
+type MessagesRequest = { messages: { role: string; content: unknown }[] } & Record<string, unknown>;
+
+/**
+ * Serve the given responses to message requests in turn, recording the requests
+ * The SDK does its own requests rather than going through fetch, so it is pointed at a local server instead.
+ */
+function stubServer(responses: Response[]): { url: string; requests: MessagesRequest[]; server: Deno.HttpServer } {
+  const requests: MessagesRequest[] = [];
+  const server = Deno.serve({ port: 0, onListen: () => {} }, async (request) => {
+    requests.push(await request.json());
+    return responses.shift() ?? new Response("No more responses", { status: 500 });
+  });
+  return { url: `http://localhost:${server.addr.port}`, requests, server };
+}
+
+function stubbedModel(url: string, properties: Record<string, unknown> = {}, options?: ModelOptions) {
+  const baseUrl = Deno.env.get("ANTHROPIC_BASE_URL");
+  Deno.env.set("ANTHROPIC_BASE_URL", url);
+  const model = claudeModel("claude-test", "A stubbed model", { apiKey: "secret", ...properties }).factory("Typer", options);
+  baseUrl === undefined ? Deno.env.delete("ANTHROPIC_BASE_URL") : Deno.env.set("ANTHROPIC_BASE_URL", baseUrl);
+  return model;
+}
+
+function message(texts: string[], stopReason: string): Response {
+  return Response.json({
+    id: "msg_1",
+    type: "message",
+    role: "assistant",
+    model: "claude-test",
+    content: texts.map((text) => ({ type: "text", text })),
+    stop_reason: stopReason,
+    usage: { input_tokens: 10, output_tokens: 5 },
+  });
+}
+
+/**
+ * A streamed response whose chunks are sent one by one
+ */
+function eventStream(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(encoder.encode(chunk));
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      controller.close();
+    },
+  });
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+function event(data: Record<string, unknown>): string {
+  return `event: ${data.type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+Deno.test("ClaudeModel - streams the text deltas of the events, also when an event is split across chunks", async () => {
+  const events = [
+    event({
+      type: "message_start",
+      message: {
+        id: "msg_1",
+        type: "message",
+        role: "assistant",
+        model: "claude-test",
+        content: [],
+        stop_reason: null,
+        usage: { input_tokens: 10, output_tokens: 1 },
+      },
+    }),
+    event({ type: "content_block_start", index: 0, content_block: { type: "text", text: "" } }),
+    event({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hel" } }),
+    event({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "lo" } }),
+    event({ type: "content_block_stop", index: 0 }),
+    event({ type: "message_delta", delta: { stop_reason: "end_turn" }, usage: { output_tokens: 5 } }),
+    event({ type: "message_stop" }),
+  ].join("");
+  const split = events.indexOf('"lo"');
+  const { url, requests, server } = stubServer([eventStream([events.slice(0, split), events.slice(split)])]);
+  const model = stubbedModel(url);
+
+  const tokens: string[] = [];
+  const usage: TokenUsage[] = [];
+  const response = await model.generateResponse("Hi", { onToken: (text) => tokens.push(text), onUsage: (tokens) => usage.push(tokens) });
+
+  assertEquals(response, "Hello");
+  assertEquals(tokens, ["Hel", "lo"]);
+  assertEquals(usage, [{ inputTokens: 10, outputTokens: 5 }]);
+  assertEquals(requests[0].stream, true);
+  await server.shutdown();
+});
+
+Deno.test("ClaudeModel - the model options of an agent override the defaults of the model in the request", async () => {
+  const { url, requests, server } = stubServer([message(["Hello"], "end_turn")]);
+  const model = stubbedModel(url, { temperature: 0.1, topP: 0.5 }, toModelOptions({ temperature: 0.7, max_tokens: 256, stop: ["END"] }));
+
+  assertEquals(await model.generateResponse("Hi"), "Hello");
+
+  const { temperature, max_tokens, top_p, stop_sequences } = requests[0];
+  assertEquals([temperature, max_tokens, top_p, stop_sequences], [0.7, 256, 0.5, ["END"]]);
+  await server.shutdown();
+});
+
+Deno.test("ClaudeModel - puts together all text blocks and the continuations of a response cut off at max_tokens", async () => {
+  const { url, requests, server } = stubServer([message(["Writing ", "the file:\n\n"], "max_tokens"), message(['TOOL:t1:fs.write("a")'], "end_turn")]);
+  const model = stubbedModel(url);
+
+  const response = await model.generateResponse("Write the file");
+
+  assertEquals(response, 'Writing the file:\n\nTOOL:t1:fs.write("a")');
+  assertEquals(new ResponseParser(response).parse().function_calls?.map((call) => call.function), ["write"]);
+  // The continuation is asked for with the response so far, without the whitespace at its end
+  assertEquals(requests[1].messages.at(-1), { role: "assistant", content: "Writing the file:" });
+  await server.shutdown();
+});
+
+Deno.test("ClaudeModel - a response that is still cut off after the continuations is a truncation error", async () => {
+  const { url, requests, server } = stubServer([message(["One"], "max_tokens"), message([" two"], "max_tokens")]);
+  const model = stubbedModel(url, { maxContinuations: 1 });
+
+  const error = await model.generateResponse("Count").catch((e) => e);
+
+  assertEquals([error instanceof TruncatedResponseError, error.partial, requests.length], [true, "One two", 2]);
+  await server.shutdown();
+});
@@ -1,6 +1,22 @@
-import { Message, Model, ToolResponses } from "./types.ts";
+import {
+  type Context,
+  type GenerateOptions,
+  Message,
+  Model,
+  type ModelAvailability,
+  type ModelDescription,
+  type ModelOptions,
+  type ModelPricing,
+  type ToolCall,
+  ToolResponses,
+} from "./types.ts";
 import { Anthropic } from "npm:@anthropic-ai/sdk";
 import { BaseModel } from "./base.ts";
+import { isTransientStatus, ModelError, parseRetryAfter, TruncatedResponseError } from "./errors.ts";
+
+const DEFAULT_MODEL_ID = "claude-3-7-sonnet-20250219";
+// How often a response that hit max_tokens is continued before it is given up on
+const DEFAULT_MAX_CONTINUATIONS = 3;
 
 class ClaudeModel extends BaseModel implements Model {
   private name: string;
@@ -9,72 +25,225 @@ class ClaudeModel extends BaseModel implements Model {
   private modelId: string;
   private temperature: number;
   private maxTokens: number;
+  private topP: number | undefined;
+  private stop: string[] | undefined;
+  private maxContinuations: number;
 
-  constructor(name: string, properties?: Record<string, unknown>) {
+  constructor(name: string, properties?: Record<string, unknown>, options: ModelOptions = {}) {
     super();
     this.name = name;
     this.apiKey = properties?.apiKey as string || Deno.env.get("ANTHROPIC_API_KEY") || "";
-    this.client = new Anthropic({ apiKey: this.apiKey });
+    // Failed requests are retried by the scheduler according to the provider's retry policy
+    this.client = new Anthropic({ apiKey: this.apiKey, maxRetries: 0 });
 
     // Set model properties with defaults
-    this.modelId = properties?.modelId as string || "claude-3-7-sonnet-20250219";
-    this.temperature = properties?.temperature as number || 0.0;
-    this.maxTokens = properties?.maxTokens as number || 1024;
+    this.modelId = properties?.modelId as string || DEFAULT_MODEL_ID;
+    this.temperature = options.temperature ?? (properties?.temperature as number || 0.0);
+    this.maxTokens = options.maxTokens ?? (properties?.maxTokens as number || 1024);
+    this.topP = options.topP ?? properties?.topP as number | undefined;
+    this.stop = options.stop ?? properties?.stop as string[] | undefined;
+    this.maxContinuations = properties?.maxContinuations as number | undefined ?? DEFAULT_MAX_CONTINUATIONS;
   }
 
   public getModelName(): string {
     return this.name;
   }
 
-  public async generateResponse(prompt: string | ToolResponses): Promise<string> {
+  public supportsTools(): boolean {
+    return true;
+  }
+
+  public async generateResponse(prompt: string | ToolResponses, options: GenerateOptions = {}): Promise<string> {
+    if (!this.apiKey) {
+      throw new ModelError("Claude API error: ANTHROPIC_API_KEY is not set", "claude", false, { unauthorized: true });
+    }
+
     const newMessage: Message = { role: "user", content: prompt };
     this.context.push(newMessage);
 
     try {
-      // Convert our internal context format to Anthropic's format
-      // Anthropic doesn't accept 'system' role in messages array
-      const anthropicMessages = this.context
-        .filter((msg) => msg.role !== "system")
-        .map((msg) => ({
-          role: msg.role as "user" | "assistant",
-          content: typeof msg.content === "object" ? JSON.stringify(msg.content) : msg.content,
-        }));
-
       // Ensure systemMessage_ is a string - join it if it's an array
       const systemMessage = Array.isArray(this.systemMessage_) ? this.systemMessage_.join("\n") : this.systemMessage_;
 
-      const response = await this.client.messages.create({
+      const request: Anthropic.MessageCreateParamsNonStreaming = {
         model: this.modelId,
-        messages: anthropicMessages,
+        messages: [],
         system: systemMessage,
         temperature: this.temperature,
         max_tokens: this.maxTokens,
-      });
-
-      // Safely extract text content from response
+        ...(this.topP !== undefined && { top_p: this.topP }),
+        ...(this.stop !== undefined && { stop_sequences: this.stop }),
+        ...(options.tools
+          ? {
+            tools: options.tools.map((tool) => ({
+              name: tool.name,
+              description: tool.description,
+              input_schema: tool.inputSchema as Anthropic.Tool.InputSchema,
+            })),
+          }
+          : {}),
+      };
+      // A response cut off at max_tokens is continued by sending it back as the start of the answer, and the pieces are put together
       let assistantMessage = "";
-      for (const block of response.content) {
-        if ("text" in block) {
-          assistantMessage = block.text;
+      const toolCalls: ToolCall[] = [];
+      for (let continuation = 0;; continuation++) {
+        // Anthropic rejects a partial answer that ends with whitespace, so it is left out of what is sent but kept in the response, where it
+        // may separate a TOOL: line from the text before it
+        const prefill = assistantMessage.trimEnd();
+        request.messages = [...anthropicMessages(this.context), ...(prefill ? [{ role: "assistant" as const, content: prefill }] : [])];
+
+        const response = options.onToken
+          ? await this.client.messages.stream(request, { signal: options.signal }).on("text", options.onToken).finalMessage()
+          : await this.client.messages.create(request, { signal: options.signal });
+
+        options.onUsage?.({ inputTokens: response.usage.input_tokens, outputTokens: response.usage.output_tokens });
+
+        for (const block of response.content) {
+          if (block.type === "text") {
+            assistantMessage += block.text;
+          } else if (block.type === "tool_use") {
+            toolCalls.push({ id: block.id, name: block.name, input: block.input as Record<string, unknown> });
+          }
+        }
+
+        if (response.stop_reason !== "max_tokens") {
           break;
         }
+        // A tool call can't be continued, and may be incomplete
+        if (toolCalls.length > 0 || continuation >= this.maxContinuations) {
+          // The agent is told about the cut off response in its next prompt, so the response stays in the conversation
+          this.context.push({ role: "assistant", content: assistantMessage });
+          throw new TruncatedResponseError(
+            `Claude's response was cut off at ${this.maxTokens} tokens${continuation > 0 ? ` after ${continuation} continuations` : ""}`,
+            "claude",
+            assistantMessage,
+          );
+        }
       }
 
-      if (!assistantMessage) {
+      if (!assistantMessage && toolCalls.length === 0) {
         throw new Error("No text content found in Claude's response");
       }
 
       this.context.push({
         role: "assistant",
         content: assistantMessage,
+        ...(toolCalls.length > 0 ? { toolCalls } : {}),
       });
+      if (toolCalls.length > 0) {
+        options.onToolCalls?.(toolCalls);
+      }
 
       return assistantMessage;
     } catch (error: unknown) {
-      // Properly handle unknown error type
-      const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-      throw new Error(`Claude API error: ${errorMessage}`);
+      if (error instanceof TruncatedResponseError) {
+        throw error;
+      }
+
+      // A failed or cancelled prompt is not part of the conversation, it is sent again if the prompt is retried
+      this.context.pop();
+
+      if (options.signal?.aborted) {
+        throw error;
+      }
+
+      throw claudeError(error);
+    }
+  }
+}
+
+/**
+ * Convert our internal context format to Anthropic's format
+ * Native tool calls become tool_use blocks, and the tool responses that answer them tool_result blocks. Anthropic
+ * requires every tool_use to be answered in the next message, so calls that are answered later - a message to another
+ * agent, a question for the user - or not at all are acknowledged there.
+ */
+function anthropicMessages(context: Context): Anthropic.MessageParam[] {
+  const messages: Anthropic.MessageParam[] = [];
+  let unanswered: string[] = [];
+
+  // Anthropic doesn't accept 'system' role in messages array
+  for (const message of context.filter((msg) => msg.role !== "system")) {
+    if (message.role === "assistant") {
+      const calls = message.toolCalls ?? [];
+      messages.push({
+        role: "assistant",
+        content: calls.length === 0 ? message.content as string : [
+          ...(message.content ? [{ type: "text" as const, text: message.content as string }] : []),
+          ...calls.map((call) => ({ type: "tool_use" as const, id: call.id, name: call.name, input: call.input })),
+        ],
+      });
+      unanswered = calls.map((call) => call.id);
+      continue;
     }
+
+    if (unanswered.length === 0) {
+      messages.push({ role: "user", content: typeof message.content === "object" ? JSON.stringify(message.content) : message.content });
+      continue;
+    }
+
+    const results: Anthropic.ToolResultBlockParam[] = [];
+    const rest: Anthropic.TextBlockParam[] = [];
+    if (typeof message.content === "object") {
+      const answers = message.content.responses.filter((response) => unanswered.includes(response.correlationId));
+      const others = message.content.responses.filter((response) => !unanswered.includes(response.correlationId));
+      results.push(...answers.map((response) => ({
+        type: "tool_result" as const,
+        tool_use_id: response.correlationId,
+        content: response.content,
+        is_error: !response.success,
+      })));
+      if (others.length > 0) {
+        rest.push({ type: "text", text: JSON.stringify({ ...message.content, responses: others }) });
+      }
+    } else {
+      rest.push({ type: "text", text: message.content });
+    }
+    const answered = results.map((result) => result.tool_use_id);
+    results.push(...unanswered.filter((id) => !answered.includes(id)).map((id) => ({ type: "tool_result" as const, tool_use_id: id, content: "Received." })));
+
+    messages.push({ role: "user", content: [...results, ...rest] });
+    unanswered = [];
+  }
+
+  return messages;
+}
+
+/**
+ * Classify an error from the Anthropic API
+ */
+function claudeError(error: unknown): ModelError {
+  // Properly handle unknown error type
+  const message = `Claude API error: ${error instanceof Error ? error.message : "Unknown error occurred"}`;
+
+  if (error instanceof Anthropic.APIConnectionError) {
+    return new ModelError(message, "claude", true, { cause: error });
+  }
+  if (error instanceof Anthropic.APIError && error.status !== undefined) {
+    return new ModelError(message, "claude", isTransientStatus(error.status), {
+      status: error.status,
+      retryAfter: parseRetryAfter(error.headers?.["retry-after"]),
+      cause: error,
+    });
+  }
+  return new ModelError(message, "claude", false, { cause: error });
+}
+
+/**
+ * Check that there is an API key and that Anthropic knows the model
+ */
+async function checkClaudeModel(properties: Record<string, unknown> | undefined, signal?: AbortSignal): Promise<ModelAvailability> {
+  const apiKey = properties?.apiKey as string || Deno.env.get("ANTHROPIC_API_KEY");
+  if (!apiKey) {
+    return { available: false, detail: "ANTHROPIC_API_KEY is not set" };
+  }
+
+  const modelId = properties?.modelId as string || DEFAULT_MODEL_ID;
+  try {
+    await new Anthropic({ apiKey, maxRetries: 0 }).models.retrieve(modelId, { signal });
+    return { available: true, detail: `${modelId} is available` };
+  } catch (error: unknown) {
+    return { available: false, detail: claudeError(error).message };
   }
 }
 
@@ -82,9 +251,16 @@ export const claudeModel = (
   name: string,
   description: string,
   properties?: Record<string, unknown>,
-) => ({
+  pricing?: ModelPricing,
+  contextWindow?: number,
+): ModelDescription => ({
   name,
   description,
-  factory: () => new ClaudeModel(name, properties),
+  provider: "claude",
+  modelId: properties?.modelId as string | undefined,
+  factory: (_agentName, options) => new ClaudeModel(name, properties, options),
   properties,
+  pricing,
+  contextWindow,
+  checkAvailability: (signal) => checkClaudeModel(properties, signal),
 });
@@ -0,0 +1,47 @@
+// Tests for compaction.ts
+import { assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { compactContext, DEFAULT_COMPACTION_POLICY } from "./compaction.ts";
+import { type Context } from "./types.ts";
+
+const longOutput = "x".repeat(5000);
+const context: Context = [
+  { role: "user", content: "Read the parser" },
+  { role: "assistant", content: 'TOOL:1:file-system-tool.read("parser.ts")' },
+  { role: "user", content: { type: "tool_responses", responses: [{ correlationId: "1", success: true, content: longOutput }] } },
+  { role: "assistant", content: "The parser is fine" },
+  { role: "user", content: "Now read the scanner" },
+  { role: "assistant", content: 'TOOL:2:file-system-tool.read("scanner.ts")' },
+  { role: "user", content: { type: "tool_responses", responses: [{ correlationId: "2", success: true, content: longOutput }] } },
+  { role: "assistant", content: "The scanner is fine" },
+];
+const policy = { ...DEFAULT_COMPACTION_POLICY, keepRecent: 4 };
+
+Deno.test("compactContext - leaves a conversation that fits alone", async () => {
+  const result = await compactContext(context, "system", 100000, policy);
+
+  assertEquals(result.context, context);
+  assertEquals(result.truncatedOutputs, 0);
+});
+
+Deno.test("compactContext - cuts older tool outputs and keeps the recent messages intact", async () => {
+  const result = await compactContext(context, "system", 3000, policy);
+
+  assertEquals(result.truncatedOutputs, 1);
+  assertEquals(result.summarisedMessages, 0);
+  assertEquals(result.context.slice(4), context.slice(4));
+  assertEquals(result.after < result.before, true);
+});
+
+Deno.test("compactContext - summarises older messages when cutting is not enough", async () => {
+  const summarised: Context[] = [];
+  const result = await compactContext(context, "system", 1500, policy, (messages) => {
+    summarised.push(messages);
+    return Promise.resolve("The parser is fine");
+  });
+
+  assertEquals(summarised[0].length, 4);
+  assertEquals(result.summarisedMessages, 4);
+  assertEquals(result.context.length, 6);
+  assertEquals(result.context[0].content, "Summary of the earlier conversation:\n\nThe parser is fine");
+  assertEquals(result.context.slice(2), context.slice(4));
+});
@@ -0,0 +1,144 @@
+import { type Context, type Message, type ToolResponses } from "./types.ts";
+
+/**
+ * When and how a conversation is compacted to fit the model's context window
+ */
+export interface CompactionPolicy {
+  /** Compact once the estimated tokens exceed this fraction of the context window */
+  threshold: number;
+  /** The number of most recent messages that are kept intact */
+  keepRecent: number;
+  /** Tool outputs in older messages are cut to this many characters */
+  maxToolOutput: number;
+  /** The model that summarises the earlier conversation, the agent's own model when not given */
+  summariser?: string;
+}
+
+export const DEFAULT_COMPACTION_POLICY: CompactionPolicy = {
+  threshold: 0.75,
+  keepRecent: 6,
+  maxToolOutput: 2000,
+};
+
+/**
+ * The instructions for the summariser model
+ */
+export const SUMMARY_INSTRUCTIONS =
+  "You summarise the earlier part of a conversation between an AI agent and the user, other agents and tools, so that the agent can continue its work from the summary. Keep the task, the plan and its progress, decisions, facts, file names, open questions and anything promised to other agents. Leave out pleasantries and tool output that is no longer needed. Reply with the summary only.";
+
+export interface CompactionResult {
+  context: Context;
+  /** Estimated tokens of the system message and the conversation before compaction */
+  before: number;
+  /** Estimated tokens after compaction */
+  after: number;
+  /** The number of tool outputs that were cut */
+  truncatedOutputs: number;
+  /** The number of messages replaced by a summary */
+  summarisedMessages: number;
+}
+
+/**
+ * Compact a conversation that is getting too big for the context window
+ * Tool outputs in older messages are cut first. When that is not enough, or when forced, the older messages are replaced
+ * by a summary. The system message and the most recent messages are kept intact.
+ *
+ * @param contextWindow The model's context window in tokens
+ * @param summarise Summarises the older messages, without it they are only truncated
+ * @param force Compact even when the conversation fits
+ */
+export async function compactContext(
+  context: Context,
+  systemMessage: string,
+  contextWindow: number,
+  policy: CompactionPolicy,
+  summarise?: (messages: Context) => Promise<string>,
+  force = false,
+): Promise<CompactionResult> {
+  const before = estimateTokens(systemMessage) + estimateContextTokens(context);
+  const limit = contextWindow * policy.threshold;
+  if (!force && before <= limit) {
+    return { context, before, after: before, truncatedOutputs: 0, summarisedMessages: 0 };
+  }
+
+  const split = recentStart(context, policy.keepRecent);
+  const recent = context.slice(split);
+  let truncatedOutputs = 0;
+  const older = context.slice(0, split).map((message) => {
+    const { message: truncated, count } = truncateToolOutputs(message, policy.maxToolOutput);
+    truncatedOutputs += count;
+    return truncated;
+  });
+
+  let compacted = [...older, ...recent];
+  let summarisedMessages = 0;
+  if (summarise && older.length > 0 && (force || estimateTokens(systemMessage) + estimateContextTokens(compacted) > limit)) {
+    const summary = await summarise(older);
+    compacted = [
+      { role: "user", content: `Summary of the earlier conversation:\n\n${summary}` },
+      { role: "assistant", content: "Understood, I will continue from this summary." },
+      ...recent,
+    ];
+    summarisedMessages = older.length;
+  }
+
+  const after = estimateTokens(systemMessage) + estimateContextTokens(compacted);
+  return { context: compacted, before, after, truncatedOutputs, summarisedMessages };
+}
+
+/**
+ * A rough token count, about four characters per token for English text and code
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateContextTokens(context: Context): number {
+  return context.reduce((total, message) => total + estimateTokens(messageText(message)), 0);
+}
+
+/**
+ * Render messages as a plain transcript for the summariser
+ */
+export function transcript(messages: Context): string {
+  return messages.map((message) => `${message.role.toUpperCase()}:\n${messageText(message)}`).join("\n\n");
+}
+
+function messageText(message: Message): string {
+  const text = typeof message.content === "string" ? message.content : JSON.stringify(message.content);
+  return message.toolCalls ? [text, ...message.toolCalls.map((call) => JSON.stringify(call))].filter((part) => part !== "").join("\n") : text;
+}
+
+/**
+ * The index of the first recent message that is kept intact
+ * The recent messages start at a prompt rather than at tool results, which belong with the response before them.
+ */
+function recentStart(context: Context, keepRecent: number): number {
+  for (let index = Math.max(0, context.length - keepRecent); index > 0; index--) {
+    const message = context[index];
+    if (message.role === "user" && typeof message.content === "string") {
+      return index;
+    }
+  }
+  return 0;
+}
+
+function truncateToolOutputs(message: Message, maxLength: number): { message: Message; count: number } {
+  if (typeof message.content === "string") {
+    return { message, count: 0 };
+  }
+
+  let count = 0;
+  const content: ToolResponses = {
+    ...message.content,
+    responses: message.content.responses.map((response) => {
+      if (response.content.length <= maxLength) {
+        return response;
+      }
+      count++;
+      const cut = response.content.length - maxLength;
+      return { ...response, content: `${response.content.substring(0, maxLength)}\n[... ${cut} more characters removed to save space]` };
+    }),
+  };
+  return { message: { ...message, content }, count };
+}
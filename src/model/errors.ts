@@ -0,0 +1,80 @@
+/**
+ * An error from a model's API, classified so that the scheduler knows whether trying again may help
+ */
+export class ModelError extends Error {
+  /** The provider of the model, e.g. "claude" or "ollama", used to find its retry settings */
+  public readonly provider: string;
+  /** Whether the error is temporary - rate limits, overloaded or unavailable servers, timeouts and dropped connections */
+  public readonly transient: boolean;
+  /** The HTTP status, when the API responded */
+  public readonly status?: number;
+  /** Milliseconds the API asked us to wait before trying again */
+  public readonly retryAfter?: number;
+  /** Whether the credentials are missing or were rejected */
+  public readonly unauthorized: boolean;
+
+  constructor(
+    message: string,
+    provider: string,
+    transient: boolean,
+    options: { status?: number; retryAfter?: number; unauthorized?: boolean; cause?: unknown } = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "ModelError";
+    this.provider = provider;
+    this.transient = transient;
+    this.status = options.status;
+    this.retryAfter = options.retryAfter;
+    this.unauthorized = options.unauthorized ?? (options.status === 401 || options.status === 403);
+  }
+}
+
+/**
+ * A response that was cut off at the maximum number of tokens, even after it was continued as often as allowed
+ */
+export class TruncatedResponseError extends ModelError {
+  /** The response up to where it was cut off */
+  public readonly partial: string;
+
+  constructor(message: string, provider: string, partial: string) {
+    super(message, provider, false);
+    this.name = "TruncatedResponseError";
+    this.partial = partial;
+  }
+}
+
+/**
+ * Whether an error means that the provider can't serve the model: it can't be reached, the credentials are missing or rejected,
+ * or its servers fail - the latter only once retrying did not help
+ */
+export function isUnavailable(error: ModelError): boolean {
+  if (error.unauthorized) {
+    return true;
+  }
+  return error.status === undefined ? error.transient : error.status >= 500;
+}
+
+/**
+ * Whether an HTTP status means the request may succeed when tried again
+ */
+export function isTransientStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header, which is either a number of seconds or a date
+ * @returns The delay in milliseconds, or undefined when the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
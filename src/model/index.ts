@@ -1,8 +1,38 @@
-import { type Model, type ModelDescription } from "./types.ts";
+import { type Model, type ModelAvailability, type ModelDescription, type ModelOptions, type ModelPricing } from "./types.ts";
 import { ollamaModel } from "./ollama.ts";
 import { claudeModel } from "./claude.ts";
-export { type Context, type Message, type Model, type ModelDescription, type ToolResponse, type ToolResponses } from "./types.ts";
+import { scriptedModel } from "./scripted.ts";
+import { replayModel } from "./replay.ts";
+export {
+  type Context,
+  type GenerateOptions,
+  type Message,
+  type Model,
+  type ModelAvailability,
+  type ModelDescription,
+  type ModelOptions,
+  type ModelPricing,
+  type TokenUsage,
+  type ToolCall,
+  type ToolDefinition,
+  type ToolResponse,
+  type ToolResponses,
+} from "./types.ts";
 export { BaseModel } from "./base.ts";
+export { isUnavailable, ModelError, TruncatedResponseError } from "./errors.ts";
+export { openAIModel, type OpenAIModelProperties } from "./openai.ts";
+export { ollamaModel, type OllamaModelProperties } from "./ollama.ts";
+export { claudeModel } from "./claude.ts";
+export { loadFixture, type ScriptedFixture, type ScriptedResponse } from "./scripted.ts";
+export { compactContext, type CompactionPolicy, type CompactionResult, DEFAULT_COMPACTION_POLICY, SUMMARY_INSTRUCTIONS, transcript } from "./compaction.ts";
+
+/**
+ * Models that are named after a file, as <prefix>:<file>
+ */
+const fileModels = new Map<string, (name: string, file: string) => ModelDescription>([
+  ["scripted", scriptedModel],
+  ["replay", replayModel],
+]);
 
 class ModelManager {
   private models: ModelDescription[];
@@ -12,6 +42,12 @@ class ModelManager {
   }
 
   private getModelByName(name: string): ModelDescription | undefined {
+    const separator = name.indexOf(":");
+    const fileModel = separator > 0 ? fileModels.get(name.substring(0, separator)) : undefined;
+    if (fileModel && separator < name.length - 1) {
+      return fileModel(name, name.substring(separator + 1));
+    }
+
     // Try to find exact match first
     const exactMatch = this.models.find((model) => model.name === name);
     if (exactMatch) {
@@ -23,8 +59,31 @@ class ModelManager {
     return this.models.find((model) => model.name.startsWith(name + ":"));
   }
 
-  public newModel(name: string): Model | undefined {
-    return this.getModelByName(name)?.factory();
+  /**
+   * Add a model, replacing any model with the same name
+   */
+  public register(model: ModelDescription): void {
+    this.models = [...this.models.filter((other) => other.name !== model.name), model];
+  }
+
+  public list(): ModelDescription[] {
+    return [...this.models];
+  }
+
+  public get(name: string): ModelDescription | undefined {
+    return this.getModelByName(name);
+  }
+
+  public newModel(name: string, agentName?: string, options?: ModelOptions): Model | undefined {
+    return this.getModelByName(name)?.factory(agentName, options);
+  }
+
+  public getPricing(name: string): ModelPricing | undefined {
+    return this.getModelByName(name)?.pricing;
+  }
+
+  public getContextWindow(name: string): number | undefined {
+    return this.getModelByName(name)?.contextWindow;
   }
 }
 
@@ -32,26 +91,32 @@ const models = new ModelManager([
   ollamaModel(
     "qwq:latest",
     "An efficient model optimized for rapid conversational responses. Strengths include fast inference and concise, contextually relevant replies, ideal for lightweight, agent-based interactions. However, it tends to struggle with nuanced instructions, complex reasoning tasks, and maintaining context over extended dialogues.",
+    32768,
   ),
   ollamaModel(
     "mistral:latest",
     "A powerful, open-weight conversational AI model renowned for its strong reasoning capabilities, good balance of speed and accuracy, and versatility across tasks. Its strengths lie in generating detailed and contextually aware responses and handling multi-turn conversations. Weaknesses include occasional verbosity, challenges with highly specialized domain knowledge, and slight inconsistencies in factual recall.",
+    32768,
   ),
   ollamaModel(
     "llama3.1:latest",
     "An advanced general-purpose language model known for excellent reasoning, robust multilingual support, and context retention across extensive conversations. Llama3 is particularly effective at intricate reasoning tasks, nuanced instruction-following, and creative content generation. Weaknesses involve higher computational demands, slightly slower inference speeds, and occasional verbosity or repetitive phrasing in longer interactions.",
+    32768,
   ),
   ollamaModel(
     "llama3.2:latest",
     "An advanced general-purpose language model known for excellent reasoning, robust multilingual support, and context retention across extensive conversations. Llama3 is particularly effective at intricate reasoning tasks, nuanced instruction-following, and creative content generation. Weaknesses involve higher computational demands, slightly slower inference speeds, and occasional verbosity or repetitive phrasing in longer interactions.",
+    32768,
   ),
   ollamaModel(
     "deepseek-r1:14b",
     "A highly performant conversational model specifically fine-tuned for detailed reasoning, structured content generation, and rigorous logical consistency. DeepSeek excels in technical and analytical contexts, providing accurate and comprehensive responses. However, it may display slower response times, higher resource usage, and occasional difficulty managing informal or highly ambiguous conversational prompts.",
+    32768,
   ),
   ollamaModel(
     "qwen2.5-coder:14b",
     "A specialized coding assistant model with exceptional proficiency in programming languages, debugging tasks, and software development assistance. Its strengths are precise, syntactically correct code generation, detailed code explanations, and effective debugging suggestions. However, Qwen2.5-Coder tends to be less effective in general conversational use-cases, creative content generation, or tasks requiring broad domain knowledge outside software development.",
+    32768,
   ),
   claudeModel(
     "claude-3.7-sonnet",
@@ -61,18 +126,79 @@ const models = new ModelManager([
       apiKey: Deno.env.get("ANTHROPIC_API_KEY") || "",
       temperature: 0.0,
     },
+    { input: 3, output: 15 },
+    200000,
   ),
   claudeModel(
     "claude-3.5-sonnet",
     "Claude Sonnet 3.5 is Anthropic's advanced AI assistant, offering exceptional reasoning, creativity, and nuanced responses. It excels at complex tasks, follows detailed instructions precisely, and maintains context well. Best for sophisticated content creation, in-depth analysis, and professional communications requiring a balance of insight and efficiency.",
     {
-      modelId: "claude-3-5-haiku-latest",
+      modelId: "claude-3-5-sonnet-latest",
       apiKey: Deno.env.get("ANTHROPIC_API_KEY") || "",
       temperature: 0.0,
     },
+    { input: 3, output: 15 },
+    200000,
   ),
 ]);
 
-export function newModel(name: string): Model | undefined {
-  return models.newModel(name);
+/**
+ * Create a model by name
+ * Besides the models above, scripted:<fixture file> answers with canned responses and replay:<transcript file> plays back a recorded
+ * run, both without a network.
+ * @param agentName The agent the model works for
+ * @param options Parameters of the requests, overriding the model's defaults
+ */
+export function newModel(name: string, agentName?: string, options?: ModelOptions): Model | undefined {
+  return models.newModel(name, agentName, options);
+}
+
+/**
+ * Whether a model can be created by the name
+ */
+export function hasModel(name: string): boolean {
+  return models.get(name) !== undefined;
+}
+
+/**
+ * Add a model to the ones that can be created by name, replacing a model with the same name, e.g. one declared in models.yaml
+ */
+export function registerModel(model: ModelDescription): void {
+  models.register(model);
+}
+
+/**
+ * The registered models, the built-in ones first
+ */
+export function listModels(): ModelDescription[] {
+  return models.list();
+}
+
+/**
+ * Check whether a model can be used right now
+ * @param timeout Milliseconds to wait for the provider
+ */
+export async function checkModel(name: string, timeout = 5000): Promise<ModelAvailability> {
+  const model = models.get(name);
+  if (!model) {
+    return { available: false, detail: `Model "${name}" not found` };
+  }
+  if (!model.checkAvailability) {
+    return { available: true, detail: "Runs without a provider" };
+  }
+  return await model.checkAvailability(AbortSignal.timeout(timeout));
+}
+
+/**
+ * Get the price of a model's tokens, undefined for models that are free to run or have no known price
+ */
+export function modelPricing(name: string): ModelPricing | undefined {
+  return models.getPricing(name);
+}
+
+/**
+ * Get the maximum number of tokens of a request to a model, undefined when it is not known
+ */
+export function modelContextWindow(name: string): number | undefined {
+  return models.getContextWindow(name);
 }
@@ -0,0 +1,80 @@
+// Tests for ollama.ts, against a stubbed fetch
+import { assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { ollamaModel } from "./ollama.ts";
+import { BaseModel } from "./base.ts";
+import { ModelError } from "./errors.ts";
+import { type TokenUsage } from "./types.ts";
+import { toModelOptions } from "../config/models.ts";
+
+/**
+ * Replace fetch with one that answers with the chunks of a streamed body, recording the request bodies
+ * @returns The request bodies and a function that puts the real fetch back
+ */
+function stubFetch(chunks: string[]): { bodies: Record<string, unknown>[]; restore: () => void } {
+  const original = globalThis.fetch;
+  const bodies: Record<string, unknown>[] = [];
+  globalThis.fetch = (_input: string | URL | Request, init?: RequestInit) => {
+    bodies.push(JSON.parse(init?.body as string));
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+        controller.close();
+      },
+    });
+    return Promise.resolve(new Response(body, { headers: { "Content-Type": "application/x-ndjson" } }));
+  };
+  return { bodies, restore: () => globalThis.fetch = original };
+}
+
+Deno.test("OllamaModel - streams the text of each line, also when a line is split across chunks", async () => {
+  const lines = [
+    JSON.stringify({ message: { content: "Hel" }, done: false }),
+    JSON.stringify({ message: { content: "lo" }, done: false }),
+    JSON.stringify({ message: { content: "" }, done: true, prompt_eval_count: 12, eval_count: 3 }),
+  ].join("\n") + "\n";
+  const split = lines.indexOf('"lo"');
+  const { bodies, restore } = stubFetch([lines.slice(0, split), lines.slice(split)]);
+  const model = ollamaModel("llama3.2", "A stubbed model").factory();
+
+  const tokens: string[] = [];
+  const usage: TokenUsage[] = [];
+  try {
+    const response = await model.generateResponse("Hi", { onToken: (text) => tokens.push(text), onUsage: (tokens) => usage.push(tokens) });
+
+    assertEquals(response, "Hello");
+    assertEquals(tokens, ["Hel", "lo"]);
+    assertEquals(usage, [{ inputTokens: 12, outputTokens: 3 }]);
+    assertEquals(bodies[0].stream, true);
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("OllamaModel - an error in the stream fails the prompt", async () => {
+  const { restore } = stubFetch([JSON.stringify({ message: { content: "Hel" } }) + "\n", JSON.stringify({ error: "model crashed" }) + "\n"]);
+  const model = ollamaModel("llama3.2", "A stubbed model").factory() as BaseModel;
+
+  try {
+    const error = await model.generateResponse("Hi", { onToken: () => {} }).catch((e) => e);
+
+    assertEquals([error instanceof ModelError, error.message, error.transient], [true, "Ollama API error: model crashed", false]);
+    assertEquals(model.getContext(), []);
+  } finally {
+    restore();
+  }
+});
+
+Deno.test("OllamaModel - the model options of an agent override the defaults of the model in the request", async () => {
+  const { bodies, restore } = stubFetch([JSON.stringify({ message: { content: "Hello" }, done: true })]);
+  const model = ollamaModel("llama3.2", "A stubbed model", 8192, { temperature: 0.1, topP: 0.5 })
+    .factory("Typer", toModelOptions({ temperature: 0.7, max_tokens: 256, stop: ["END"], ollama: { seed: 42 } }));
+
+  try {
+    assertEquals(await model.generateResponse("Hi"), "Hello");
+
+    assertEquals(bodies[0].options, { num_ctx: 8192, temperature: 0.7, top_p: 0.5, num_predict: 256, stop: ["END"], seed: 42 });
+  } finally {
+    restore();
+  }
+});
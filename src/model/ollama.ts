@@ -1,19 +1,40 @@
-import { Message, Model, type ToolResponses } from "./types.ts";
+import { type GenerateOptions, Message, Model, type ModelAvailability, type ModelDescription, type ModelOptions, type ToolResponses } from "./types.ts";
 import { BaseModel } from "./base.ts";
+import { isTransientStatus, ModelError, parseRetryAfter } from "./errors.ts";
+
+const OLLAMA_URL = "http://localhost:11434";
+
+/**
+ * The settings of a model served by Ollama, with the default parameters of its requests
+ */
+export interface OllamaModelProperties extends ModelOptions {
+  /** The model as Ollama knows it, e.g. llama3.2:latest - the model's name when not given */
+  modelId?: string;
+}
 
 class OllamaModel extends BaseModel implements Model {
   private name: string;
+  private modelId: string;
+  /** The options of the requests, in Ollama's terms */
+  private options: Record<string, unknown>;
 
-  constructor(name: string) {
+  constructor(name: string, contextWindow?: number, properties: OllamaModelProperties = {}, options: ModelOptions = {}) {
     super();
     this.name = name;
+    this.modelId = properties.modelId ?? name;
+    this.options = {
+      // Ollama's own default is much smaller than what the models support, and it silently drops what doesn't fit
+      ...ollamaOptions({ ollama: { num_ctx: contextWindow } }),
+      ...ollamaOptions(properties),
+      ...ollamaOptions(options),
+    };
   }
 
   public getModelName(): string {
     return this.name;
   }
 
-  public async generateResponse(prompt: string | ToolResponses): Promise<string> {
+  public async generateResponse(prompt: string | ToolResponses, options: GenerateOptions = {}): Promise<string> {
     // Handle prompt based on its type
     let newMessage: Message;
 
@@ -36,24 +57,60 @@ class OllamaModel extends BaseModel implements Model {
       content: typeof msg.content === "string" ? msg.content : JSON.stringify(msg.content),
     }));
 
-    const response = await fetch("http://localhost:11434/api/chat", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: this.name,
-        messages: formattedMessages,
-        stream: false,
-      }),
-    });
+    let response: Response;
+    try {
+      response = await fetch(`${OLLAMA_URL}/api/chat`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model: this.modelId,
+          messages: formattedMessages,
+          stream: options.onToken !== undefined,
+          ...(Object.keys(this.options).length > 0 && { options: this.options }),
+        }),
+        signal: options.signal,
+      });
+    } catch (error: unknown) {
+      // A failed or cancelled prompt is not part of the conversation, it is sent again if the prompt is retried
+      this.context.pop();
+
+      if (options.signal?.aborted) {
+        throw error;
+      }
+
+      // Ollama may be starting up or restarting, so a failed connection is worth another try
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new ModelError(`Ollama API error: ${errorMessage}`, "ollama", true, { cause: error });
+    }
 
     if (!response.ok) {
+      this.context.pop();
+
       const errorText = await response.text();
-      throw new Error(`Ollama API error (${response.status}): ${errorText}`);
+      throw new ModelError(`Ollama API error (${response.status}): ${errorText}`, "ollama", isTransientStatus(response.status), {
+        status: response.status,
+        retryAfter: parseRetryAfter(response.headers.get("retry-after")),
+      });
     }
 
-    const data = await response.json();
+    let data: OllamaChatResponse;
+    try {
+      data = options.onToken ? await readStream(response, options.onToken) : await response.json();
+    } catch (error: unknown) {
+      this.context.pop();
+
+      if (options.signal?.aborted || error instanceof ModelError) {
+        throw error;
+      }
+
+      // The connection dropped while the response was being read
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new ModelError(`Ollama API error: ${errorMessage}`, "ollama", true, { cause: error });
+    }
+
+    options.onUsage?.({ inputTokens: data.prompt_eval_count ?? 0, outputTokens: data.eval_count ?? 0 });
 
     const assistantMessage = data.message;
 
@@ -66,11 +123,90 @@ class OllamaModel extends BaseModel implements Model {
   }
 }
 
+/**
+ * The parameters in Ollama's terms, without those that are not set so that they don't override the ones that are
+ */
+function ollamaOptions(options: ModelOptions): Record<string, unknown> {
+  const all = { temperature: options.temperature, num_predict: options.maxTokens, top_p: options.topP, stop: options.stop, ...options.ollama };
+  return Object.fromEntries(Object.entries(all).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * The response of the chat API, or the last chunk of a streamed one
+ */
+type OllamaChatResponse = {
+  message: { content: string };
+  prompt_eval_count?: number;
+  eval_count?: number;
+};
+
+/**
+ * Read a streamed response, one JSON chunk per line, passing on the text of each chunk
+ * @returns The complete response, with the token counts of the last chunk
+ */
+async function readStream(response: Response, onToken: (text: string) => void): Promise<OllamaChatResponse> {
+  let content = "";
+  let buffer = "";
+  let last: Partial<OllamaChatResponse> = {};
+
+  const handleLine = (line: string) => {
+    if (line.trim() === "") {
+      return;
+    }
+    const chunk = JSON.parse(line);
+    if (chunk.error) {
+      throw new ModelError(`Ollama API error: ${chunk.error}`, "ollama", false);
+    }
+    const text = chunk.message?.content ?? "";
+    if (text) {
+      content += text;
+      onToken(text);
+    }
+    last = chunk;
+  };
+
+  for await (const text of response.body!.pipeThrough(new TextDecoderStream())) {
+    buffer += text;
+    const lines = buffer.split("\n");
+    buffer = lines.pop()!;
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  return { ...last, message: { content } };
+}
+
+/**
+ * Check that Ollama is running and has pulled the model
+ */
+async function checkOllamaModel(modelId: string, signal?: AbortSignal): Promise<ModelAvailability> {
+  try {
+    const response = await fetch(`${OLLAMA_URL}/api/tags`, { signal });
+    if (!response.ok) {
+      await response.body?.cancel();
+      return { available: false, detail: `Ollama responded with ${response.status}` };
+    }
+    const { models } = await response.json() as { models?: { name: string }[] };
+    // Ollama adds the latest tag to models pulled without one
+    const pulled = (models ?? []).some((model) => model.name === modelId || model.name === `${modelId}:latest`);
+    return pulled ? { available: true, detail: `${modelId} is pulled` } : { available: false, detail: `${modelId} is not pulled, run: ollama pull ${modelId}` };
+  } catch (error: unknown) {
+    return { available: false, detail: `Ollama is not running at ${OLLAMA_URL}: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
 export const ollamaModel = (
   name: string,
   description: string,
-) => ({
+  contextWindow?: number,
+  properties?: OllamaModelProperties,
+): ModelDescription => ({
   name,
   description,
-  factory: () => new OllamaModel(name),
+  provider: "ollama",
+  modelId: properties?.modelId,
+  factory: (_agentName, options) => new OllamaModel(name, contextWindow, properties, options),
+  properties: properties && { ...properties },
+  contextWindow,
+  checkAvailability: (signal) => checkOllamaModel(properties?.modelId ?? name, signal),
 });
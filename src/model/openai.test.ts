@@ -0,0 +1,112 @@
+// Tests for openai.ts, against a stub of the chat completions API
+import { assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { openAIModel } from "./openai.ts";
+import { ModelError } from "./errors.ts";
+import { type TokenUsage } from "./types.ts";
+
+type Request = { authorization: string | null; body: Record<string, unknown> };
+
+/**
+ * Serve the given responses to chat completion requests in turn, recording the requests
+ */
+function stubServer(responses: Response[]): { url: string; requests: Request[]; server: Deno.HttpServer } {
+  const requests: Request[] = [];
+  const server = Deno.serve({ port: 0, onListen: () => {} }, async (request) => {
+    requests.push({ authorization: request.headers.get("authorization"), body: await request.json() });
+    return responses.shift() ?? new Response("No more responses", { status: 500 });
+  });
+  return { url: `http://localhost:${server.addr.port}/v1/`, requests, server };
+}
+
+function completion(content: string): Response {
+  return Response.json({
+    choices: [{ message: { role: "assistant", content } }],
+    usage: { prompt_tokens: 12, completion_tokens: 3 },
+  });
+}
+
+Deno.test("OpenAIModel - sends the conversation with the configured parameters", async () => {
+  const { url, requests, server } = stubServer([completion("Hello"), completion("Bye")]);
+  Deno.env.set("H3_TEST_OPENAI_KEY", "secret");
+  const model = openAIModel("local", "A local model", {
+    baseUrl: url,
+    apiKeyEnv: "H3_TEST_OPENAI_KEY",
+    modelId: "llama-3.1-8b",
+    temperature: 0.2,
+    maxTokens: 4096,
+    topP: 0.9,
+  }).factory();
+  model.systemMessage("Be brief");
+
+  const usage: TokenUsage[] = [];
+  assertEquals(await model.generateResponse("Hi", { onUsage: (tokens) => usage.push(tokens) }), "Hello");
+  assertEquals(
+    await model.generateResponse({ type: "tool_responses", responses: [{ correlationId: "1", success: true, content: "done" }] }),
+    "Bye",
+  );
+
+  assertEquals(requests[0].authorization, "Bearer secret");
+  assertEquals(requests[0].body, {
+    model: "llama-3.1-8b",
+    messages: [{ role: "system", content: "Be brief" }, { role: "user", content: "Hi" }],
+    temperature: 0.2,
+    max_tokens: 4096,
+    top_p: 0.9,
+  });
+  assertEquals((requests[1].body.messages as unknown[]).length, 4);
+  assertEquals(usage, [{ inputTokens: 12, outputTokens: 3 }]);
+  Deno.env.delete("H3_TEST_OPENAI_KEY");
+  await server.shutdown();
+});
+
+Deno.test("OpenAIModel - streams the response as server-sent events", async () => {
+  const events = [
+    { choices: [{ delta: { role: "assistant", content: "Hel" } }] },
+    { choices: [{ delta: { content: "lo" } }] },
+    { choices: [], usage: { prompt_tokens: 5, completion_tokens: 2 } },
+  ].map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`).join("") + "data: [DONE]\n\n";
+  const { url, requests, server } = stubServer([new Response(events, { headers: { "content-type": "text/event-stream" } })]);
+  const model = openAIModel("local", "A local model", { baseUrl: url, apiKeyEnv: "H3_TEST_MISSING_KEY" }).factory();
+
+  const tokens: string[] = [];
+  const usage: TokenUsage[] = [];
+  const response = await model.generateResponse("Hi", { onToken: (text) => tokens.push(text), onUsage: (tokens) => usage.push(tokens) });
+
+  assertEquals(response, "Hello");
+  assertEquals(tokens, ["Hel", "lo"]);
+  assertEquals(usage, [{ inputTokens: 5, outputTokens: 2 }]);
+  assertEquals(requests[0].authorization, null);
+  assertEquals(requests[0].body.model, "local");
+  assertEquals(requests[0].body.stream, true);
+  await server.shutdown();
+});
+
+Deno.test("OpenAIModel - classifies failed requests for the retry policy", async () => {
+  const { url, server } = stubServer([
+    new Response("Overloaded", { status: 503, headers: { "retry-after": "2" } }),
+    new Response("Unknown model", { status: 404 }),
+  ]);
+  const model = openAIModel("local", "A local model", { baseUrl: url }).factory();
+
+  const errors: ModelError[] = [];
+  for (let i = 0; i < 2; i++) {
+    await model.generateResponse("Hi").catch((e) => errors.push(e));
+  }
+
+  assertEquals(errors.map((e) => [e.provider, e.status, e.transient, e.retryAfter]), [
+    ["openai", 503, true, 2000],
+    ["openai", 404, false, undefined],
+  ]);
+  await server.shutdown();
+});
+
+Deno.test("OpenAIModel - the options of an agent override the model's defaults", async () => {
+  const { url, requests, server } = stubServer([completion("Hello")]);
+  const description = openAIModel("local", "A local model", { baseUrl: url, temperature: 0.2, maxTokens: 1024 });
+  const model = description.factory("Planner", { temperature: 0.9, stop: ["END"] });
+
+  await model.generateResponse("Hi");
+
+  assertEquals([requests[0].body.temperature, requests[0].body.max_tokens, requests[0].body.stop], [0.9, 1024, ["END"]]);
+  await server.shutdown();
+});
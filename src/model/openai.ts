@@ -0,0 +1,224 @@
+import {
+  type GenerateOptions,
+  Model,
+  type ModelAvailability,
+  type ModelDescription,
+  type ModelOptions,
+  type ModelPricing,
+  type ToolResponses,
+} from "./types.ts";
+import { BaseModel } from "./base.ts";
+import { isTransientStatus, ModelError, parseRetryAfter } from "./errors.ts";
+
+/**
+ * The settings of a model served over the OpenAI chat completions API
+ */
+export interface OpenAIModelProperties {
+  /** The URL the API's paths are relative to, e.g. http://localhost:8080/v1 for a llama.cpp server */
+  baseUrl?: string;
+  /** The environment variable holding the API key, local servers usually don't need one */
+  apiKeyEnv?: string;
+  /** The model as the server knows it, the model's name when not given */
+  modelId?: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+}
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_API_KEY_ENV = "OPENAI_API_KEY";
+
+/**
+ * A model served over the OpenAI chat completions API, which OpenAI, llama.cpp server, vLLM and LM Studio all speak
+ */
+class OpenAIModel extends BaseModel implements Model {
+  private name: string;
+  private baseUrl: string;
+  private apiKeyEnv: string;
+  private modelId: string;
+  private temperature: number | undefined;
+  private maxTokens: number | undefined;
+  private topP: number | undefined;
+  private stop: string[] | undefined;
+
+  constructor(name: string, properties: OpenAIModelProperties = {}, options: ModelOptions = {}) {
+    super();
+    this.name = name;
+    this.baseUrl = (properties.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+    this.apiKeyEnv = properties.apiKeyEnv ?? DEFAULT_API_KEY_ENV;
+    this.modelId = properties.modelId ?? name;
+    this.temperature = options.temperature ?? properties.temperature;
+    this.maxTokens = options.maxTokens ?? properties.maxTokens;
+    this.topP = options.topP ?? properties.topP;
+    this.stop = options.stop ?? properties.stop;
+  }
+
+  public getModelName(): string {
+    return this.name;
+  }
+
+  public async generateResponse(prompt: string | ToolResponses, options: GenerateOptions = {}): Promise<string> {
+    this.context.push({ role: "user", content: prompt });
+
+    const messages = [{ role: "system", content: this.systemMessage_ }, ...this.context.filter((msg) => msg.role !== "system")]
+      .map((msg) => ({ role: msg.role, content: typeof msg.content === "string" ? msg.content : JSON.stringify(msg.content) }));
+
+    // The key is read for every request, so that it can be set without restarting
+    const apiKey = Deno.env.get(this.apiKeyEnv);
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(apiKey ? { "Authorization": `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model: this.modelId,
+          messages,
+          ...(this.temperature !== undefined && { temperature: this.temperature }),
+          ...(this.maxTokens !== undefined && { max_tokens: this.maxTokens }),
+          ...(this.topP !== undefined && { top_p: this.topP }),
+          ...(this.stop !== undefined && { stop: this.stop }),
+          // The usage is only sent at the end of a stream when asked for
+          ...(options.onToken ? { stream: true, stream_options: { include_usage: true } } : {}),
+        }),
+        signal: options.signal,
+      });
+    } catch (error: unknown) {
+      // A failed or cancelled prompt is not part of the conversation, it is sent again if the prompt is retried
+      this.context.pop();
+
+      if (options.signal?.aborted) {
+        throw error;
+      }
+
+      // A local server may be starting up or restarting, so a failed connection is worth another try
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new ModelError(`OpenAI API error: ${errorMessage}`, "openai", true, { cause: error });
+    }
+
+    if (!response.ok) {
+      this.context.pop();
+
+      const errorText = await response.text();
+      throw new ModelError(`OpenAI API error (${response.status}): ${errorText}`, "openai", isTransientStatus(response.status), {
+        status: response.status,
+        retryAfter: parseRetryAfter(response.headers.get("retry-after")),
+      });
+    }
+
+    let data: ChatCompletion;
+    try {
+      data = options.onToken ? await readStream(response, options.onToken) : await response.json();
+    } catch (error: unknown) {
+      this.context.pop();
+
+      if (options.signal?.aborted || error instanceof ModelError) {
+        throw error;
+      }
+
+      // The connection dropped while the response was being read
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      throw new ModelError(`OpenAI API error: ${errorMessage}`, "openai", true, { cause: error });
+    }
+
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      this.context.pop();
+      throw new ModelError("OpenAI API error: No text content found in the response", "openai", false);
+    }
+
+    options.onUsage?.({ inputTokens: data.usage?.prompt_tokens ?? 0, outputTokens: data.usage?.completion_tokens ?? 0 });
+
+    this.context.push({ role: "assistant", content });
+    return content;
+  }
+}
+
+/**
+ * The response of the chat completions API, or the pieces of a streamed one put together
+ */
+type ChatCompletion = {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+};
+
+/**
+ * Read a streamed response, server-sent events with one JSON chunk each, passing on the text of each chunk
+ * @returns The complete response, with the usage of the chunk that reported it
+ */
+async function readStream(response: Response, onToken: (text: string) => void): Promise<ChatCompletion> {
+  let content = "";
+  let buffer = "";
+  let usage: ChatCompletion["usage"];
+
+  const handleLine = (line: string) => {
+    const data = line.startsWith("data:") ? line.substring(5).trim() : "";
+    if (data === "" || data === "[DONE]") {
+      return;
+    }
+    const chunk = JSON.parse(data);
+    if (chunk.error) {
+      throw new ModelError(`OpenAI API error: ${chunk.error.message ?? JSON.stringify(chunk.error)}`, "openai", false);
+    }
+    const text = chunk.choices?.[0]?.delta?.content ?? "";
+    if (text) {
+      content += text;
+      onToken(text);
+    }
+    usage = chunk.usage ?? usage;
+  };
+
+  for await (const text of response.body!.pipeThrough(new TextDecoderStream())) {
+    buffer += text;
+    const lines = buffer.split(/\r?\n/);
+    buffer = lines.pop()!;
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  return { choices: [{ message: { content } }], usage };
+}
+
+/**
+ * Check that the server is running and serves the model
+ */
+async function checkOpenAIModel(name: string, properties: OpenAIModelProperties, signal?: AbortSignal): Promise<ModelAvailability> {
+  const baseUrl = (properties.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+  const modelId = properties.modelId ?? name;
+  const apiKey = Deno.env.get(properties.apiKeyEnv ?? DEFAULT_API_KEY_ENV);
+  try {
+    const response = await fetch(`${baseUrl}/models`, { headers: apiKey ? { "Authorization": `Bearer ${apiKey}` } : {}, signal });
+    if (!response.ok) {
+      await response.body?.cancel();
+      return { available: false, detail: `${baseUrl} responded with ${response.status}` };
+    }
+    const { data } = await response.json() as { data?: { id: string }[] };
+    return (data ?? []).some((model) => model.id === modelId)
+      ? { available: true, detail: `${modelId} is served at ${baseUrl}` }
+      : { available: false, detail: `${baseUrl} does not serve ${modelId}` };
+  } catch (error: unknown) {
+    return { available: false, detail: `${baseUrl} is not reachable: ${error instanceof Error ? error.message : String(error)}` };
+  }
+}
+
+export const openAIModel = (
+  name: string,
+  description: string,
+  properties: OpenAIModelProperties = {},
+  pricing?: ModelPricing,
+  contextWindow?: number,
+): ModelDescription => ({
+  name,
+  description,
+  provider: "openai",
+  modelId: properties.modelId,
+  factory: (_agentName, options) => new OpenAIModel(name, properties, options),
+  properties: { ...properties },
+  pricing,
+  contextWindow,
+  checkAvailability: (signal) => checkOpenAIModel(name, properties, signal),
+});
@@ -0,0 +1,26 @@
+// Tests for replay.ts
+import { assertEquals } from "https://deno.land/std/testing/asserts.ts";
+import { newModel } from "./index.ts";
+
+const response = (agent: string, text: string) =>
+  JSON.stringify({ time: "2025-01-01T00:00:00.000Z", event: "model:response", data: { agent, model: "m", response: text } });
+
+Deno.test("ReplayModel - plays back the recorded responses of its agent in order", async () => {
+  const file = await Deno.makeTempFile({ suffix: ".jsonl" });
+  await Deno.writeTextFile(file, [response("Typer", "First"), response("Manager", "Other"), response("Typer", "Second")].join("\n") + "\n");
+  const model = newModel(`replay:${file}`, "Typer")!;
+
+  assertEquals([await model.generateResponse("One"), await model.generateResponse("Two")], ["First", "Second"]);
+  await Deno.remove(file);
+});
+
+Deno.test("ReplayModel - a malformed transcript is reported with the line that is wrong", async () => {
+  const file = await Deno.makeTempFile({ suffix: ".jsonl" });
+  await Deno.writeTextFile(file, `${response("Typer", "First")}\n{"event": \n`);
+  const model = newModel(`replay:${file}`, "Typer")!;
+
+  const error = await model.generateResponse("One").catch((e) => e);
+
+  assertEquals(error.message.startsWith(`Replay model error: Line 2 of ${file} is not valid JSON`), true);
+  await Deno.remove(file);
+});
@@ -0,0 +1,80 @@
+import { type GenerateOptions, Model, type ModelDescription, type ToolCall, type ToolResponses } from "./types.ts";
+import { BaseModel } from "./base.ts";
+import { ModelError } from "./errors.ts";
+import { estimateTokens } from "./compaction.ts";
+import { readTranscript } from "../agent/transcript.ts";
+
+/**
+ * Plays back the raw model responses an agent received in a recorded transcript, in the order they were recorded
+ * The prompts are not checked, so a replay only reproduces a run as long as the agents behave as they did then.
+ */
+class ReplayModel extends BaseModel implements Model {
+  private name: string;
+  private file: string;
+  private agentName: string | undefined;
+  private responses: Promise<RecordedResponse[]> | undefined;
+  private turn = 0;
+
+  constructor(name: string, file: string, agentName?: string) {
+    super();
+    this.name = name;
+    this.file = file;
+    this.agentName = agentName;
+  }
+
+  public getModelName(): string {
+    return this.name;
+  }
+
+  public supportsTools(): boolean {
+    return true;
+  }
+
+  public async generateResponse(prompt: string | ToolResponses, options: GenerateOptions = {}): Promise<string> {
+    this.responses ??= recordedResponses(this.file, this.agentName);
+    const responses = await this.responses.catch((e) => {
+      this.responses = undefined;
+      throw new ModelError(`Replay model error: ${e instanceof Error ? e.message : String(e)}`, "replay", false, { cause: e });
+    });
+    options.signal?.throwIfAborted();
+
+    if (this.turn >= responses.length) {
+      throw new ModelError(
+        `Replay model error: ${this.file} has only ${responses.length} responses for ${this.agentName ?? "the model"}`,
+        "replay",
+        false,
+      );
+    }
+    const { response, toolCalls } = responses[this.turn++];
+
+    const text = typeof prompt === "string" ? prompt : JSON.stringify(prompt);
+    options.onUsage?.({ inputTokens: estimateTokens(this.systemMessage_ + text), outputTokens: estimateTokens(response) });
+
+    this.context.push({ role: "user", content: prompt });
+    this.context.push({ role: "assistant", content: response, ...(toolCalls ? { toolCalls } : {}) });
+    if (toolCalls) {
+      options.onToolCalls?.(toolCalls);
+    }
+    return response;
+  }
+}
+
+type RecordedResponse = { response: string; toolCalls?: ToolCall[] };
+
+/**
+ * The model responses of an agent in a transcript, all responses when no agent is given
+ */
+async function recordedResponses(file: string, agentName: string | undefined): Promise<RecordedResponse[]> {
+  return (await readTranscript(file))
+    .flatMap((record) => record.event === "model:response" && (agentName === undefined || record.data.agent === agentName) ? [record.data] : []);
+}
+
+/**
+ * A replay model, named replay:<transcript file>
+ */
+export const replayModel = (name: string, file: string): ModelDescription => ({
+  name,
+  provider: "replay",
+  description: `Plays back the model responses recorded in ${file}`,
+  factory: (agentName?: string) => new ReplayModel(name, file, agentName),
+});
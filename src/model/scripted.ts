@@ -0,0 +1,124 @@
+import { parse as parseYaml } from "https://deno.land/std@0.224.0/yaml/mod.ts";
+import { type GenerateOptions, Model, type ModelDescription, type ToolCall, type ToolResponses } from "./types.ts";
+import { BaseModel } from "./base.ts";
+import { ModelError } from "./errors.ts";
+import { estimateTokens } from "./compaction.ts";
+
+/**
+ * A canned response of a scripted model and the prompts it answers
+ * A rule without agent, turn or prompt answers every prompt.
+ */
+export interface ScriptedResponse {
+  /** Only answer the prompts of this agent */
+  agent?: string;
+  /** Only answer the agent's nth prompt, counting from 1 */
+  turn?: number;
+  /** Only answer the prompts that match this regular expression, tool results are matched as JSON */
+  prompt?: string;
+  response: string;
+  /** Native tool calls made with the response, for agents that use native tool use - the IDs default to <agent>-<turn>-<n> */
+  tool_calls?: { id?: string; name: string; input?: Record<string, unknown> }[];
+}
+
+/**
+ * A fixture file of a scripted model, in YAML or JSON
+ */
+export interface ScriptedFixture {
+  responses: ScriptedResponse[];
+}
+
+/**
+ * Answers prompts with the first response of a fixture file that matches the agent, its turn and the prompt
+ * Nothing is sent over the network, so whole multi-agent flows can run in tests.
+ */
+class ScriptedModel extends BaseModel implements Model {
+  private name: string;
+  private file: string;
+  private agentName: string | undefined;
+  private fixture: Promise<ScriptedFixture> | undefined;
+  private turn = 0;
+
+  constructor(name: string, file: string, agentName?: string) {
+    super();
+    this.name = name;
+    this.file = file;
+    this.agentName = agentName;
+  }
+
+  public getModelName(): string {
+    return this.name;
+  }
+
+  public supportsTools(): boolean {
+    return true;
+  }
+
+  public async generateResponse(prompt: string | ToolResponses, options: GenerateOptions = {}): Promise<string> {
+    this.fixture ??= loadFixture(this.file);
+    const fixture = await this.fixture.catch((e) => {
+      this.fixture = undefined;
+      throw new ModelError(`Scripted model error: ${e instanceof Error ? e.message : String(e)}`, "scripted", false, { cause: e });
+    });
+    options.signal?.throwIfAborted();
+
+    const turn = ++this.turn;
+    const text = typeof prompt === "string" ? prompt : JSON.stringify(prompt);
+    const match = fixture.responses.find((rule) =>
+      (rule.agent === undefined || rule.agent === this.agentName) &&
+      (rule.turn === undefined || rule.turn === turn) &&
+      (rule.prompt === undefined || new RegExp(rule.prompt).test(text))
+    );
+    if (!match) {
+      throw new ModelError(`Scripted model error: no response in ${this.file} for ${this.agentName ?? "the model"}, turn ${turn}`, "scripted", false);
+    }
+
+    // There is no API to count the tokens, so they are estimated to let budgets work as with the real models
+    options.onUsage?.({ inputTokens: estimateTokens(this.systemMessage_ + text), outputTokens: estimateTokens(match.response) });
+
+    const toolCalls: ToolCall[] | undefined = match.tool_calls?.map((call, index) => ({
+      id: call.id ?? `${this.agentName ?? "model"}-${turn}-${index + 1}`,
+      name: call.name,
+      input: call.input ?? {},
+    }));
+
+    this.context.push({ role: "user", content: prompt });
+    this.context.push({ role: "assistant", content: match.response, ...(toolCalls ? { toolCalls } : {}) });
+    if (toolCalls) {
+      options.onToolCalls?.(toolCalls);
+    }
+    return match.response;
+  }
+}
+
+/**
+ * Read and check a fixture file
+ * @throws When the file can't be read or a response is malformed
+ */
+export async function loadFixture(file: string): Promise<ScriptedFixture> {
+  const fixture = parseYaml(await Deno.readTextFile(file)) as ScriptedFixture | null;
+  if (!fixture || !Array.isArray(fixture.responses)) {
+    throw new Error(`${file} has no responses list`);
+  }
+  fixture.responses.forEach((rule, index) => {
+    if (typeof rule?.response !== "string") {
+      throw new Error(`Response ${index + 1} of ${file} has no response text`);
+    }
+    if (rule.prompt !== undefined) {
+      new RegExp(rule.prompt);
+    }
+    if (rule.tool_calls !== undefined && !(Array.isArray(rule.tool_calls) && rule.tool_calls.every((call) => typeof call?.name === "string"))) {
+      throw new Error(`Response ${index + 1} of ${file} has tool calls without a name`);
+    }
+  });
+  return fixture;
+}
+
+/**
+ * A scripted model, named scripted:<fixture file>
+ */
+export const scriptedModel = (name: string, file: string): ModelDescription => ({
+  name,
+  provider: "scripted",
+  description: `Answers with the canned responses in ${file}, for tests`,
+  factory: (agentName?: string) => new ScriptedModel(name, file, agentName),
+});
@@ -1,19 +1,106 @@
 export interface Model {
   systemMessage(message: string): void;
-  generateResponse(prompt: string | ToolResponses): Promise<string>;
+  generateResponse(prompt: string | ToolResponses, options?: GenerateOptions): Promise<string>;
   getModelName(): string;
+  /** Whether the model can call tools natively, see GenerateOptions.tools */
+  supportsTools?(): boolean;
 }
 
+export type GenerateOptions = {
+  /** Aborts the request to the model */
+  signal?: AbortSignal;
+  /** Receives the tokens used by the request, as reported by the model's API */
+  onUsage?: (usage: TokenUsage) => void;
+  /**
+   * Streams the response, receiving each piece of text as it arrives - the complete response is still returned and added to the context
+   * Models that can't stream ignore it.
+   */
+  onToken?: (text: string) => void;
+  /**
+   * The tools the model may call natively, instead of writing calls in the text of its response
+   * Models without tool support ignore them.
+   */
+  tools?: ToolDefinition[];
+  /** Receives the native tool calls of the response, when there are any */
+  onToolCalls?: (calls: ToolCall[]) => void;
+};
+
+/**
+ * A tool the model can call natively, with a JSON schema for its input
+ */
+export type ToolDefinition = {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+};
+
+/**
+ * A native tool call of a model, the result is sent back as a tool response with the call's ID as correlation ID
+ */
+export type ToolCall = {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+};
+
+/**
+ * Parameters of the requests to a model, they override the defaults of the model's description
+ * A provider ignores the parameters it does not support.
+ */
+export type ModelOptions = {
+  temperature?: number;
+  /** The maximum number of tokens of a response */
+  maxTokens?: number;
+  topP?: number;
+  /** Sequences that end the response when the model generates them */
+  stop?: string[];
+  /** Options passed to Ollama as they are, e.g. num_ctx */
+  ollama?: Record<string, unknown>;
+};
+
+export type TokenUsage = {
+  inputTokens: number;
+  outputTokens: number;
+};
+
+/**
+ * The price of a model's tokens in US dollars per million tokens
+ */
+export type ModelPricing = {
+  input: number;
+  output: number;
+};
+
 export type ModelDescription = {
   name: string;
   description: string;
-  factory: () => Model;
+  /** Who serves the model, e.g. claude, ollama or openai - also the key of its retry settings */
+  provider: string;
+  /** The model as the provider knows it, when it differs from the name */
+  modelId?: string;
+  /** The file the model was declared in, built-in models have none */
+  source?: string;
+  /** Creates the model for an agent, some models answer differently for each agent */
+  factory: (agentName?: string, options?: ModelOptions) => Model;
   properties?: Record<string, unknown>;
+  pricing?: ModelPricing;
+  /** The maximum number of tokens of a request, the system message and conversation included */
+  contextWindow?: number;
+  /** Check whether the model can be used right now, e.g. that its server is running and it has an API key */
+  checkAvailability?: (signal?: AbortSignal) => Promise<ModelAvailability>;
+};
+
+export type ModelAvailability = {
+  available: boolean;
+  /** Why the model is not available, or what was checked */
+  detail: string;
 };
 
 export type Message = {
   role: "system" | "user" | "assistant";
   content: string | ToolResponses;
+  /** The native tool calls of an assistant message */
+  toolCalls?: ToolCall[];
 };
 
 export type Context = Message[];
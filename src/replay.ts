@@ -0,0 +1,141 @@
+import chalk from "npm:chalk";
+import { readTranscript, type TranscriptRecord } from "./agent/transcript.ts";
+
+export interface ReplayOptions {
+  /** Only show the events that involve these agents */
+  agents?: string[];
+  /** Wait for Enter after every event, only when stdin is a terminal */
+  step?: boolean;
+}
+
+// The longest text of a prompt, response or tool result shown before it is cut
+const MAX_TEXT = 2000;
+
+/**
+ * Render a transcript in the terminal, one event at a time
+ * When stepping, Enter shows the next event, c shows the rest without stopping and q quits.
+ */
+export async function replay(file: string, options: ReplayOptions = {}): Promise<void> {
+  const records = (await readTranscript(file)).filter((record) => involves(record, options.agents));
+  if (records.length === 0) {
+    console.log(options.agents ? `No events for ${options.agents.join(", ")} in ${file}` : `No events in ${file}`);
+    return;
+  }
+
+  const startedAt = new Date(records[0].time).getTime();
+  let step = (options.step ?? true) && Deno.stdin.isTerminal();
+  if (step) {
+    console.log(chalk.gray("Enter: next event, c: show the rest, q: quit"));
+  }
+
+  for (const [index, record] of records.entries()) {
+    const offset = ((new Date(record.time).getTime() - startedAt) / 1000).toFixed(1).padStart(7);
+    console.log(`${chalk.gray(`${offset}s ${String(index + 1).padStart(4)}`)} ${describe(record)}`);
+
+    if (step && index < records.length - 1) {
+      const answer = prompt(chalk.gray(">"))?.trim().toLowerCase();
+      if (answer === null || answer === undefined || answer === "q") {
+        return;
+      }
+      step = answer !== "c";
+    }
+  }
+}
+
+/**
+ * Whether an event involves one of the agents, every event does when there is no filter
+ */
+function involves(record: TranscriptRecord, agents: string[] | undefined): boolean {
+  if (!agents || agents.length === 0) {
+    return true;
+  }
+  const data = record.data as Record<string, unknown>;
+  const item = data.item as { agent?: string; sourceAgent?: string } | undefined;
+  const question = data.question as { agent?: string } | undefined;
+  const names = [data.agent, data.from, data.to, data.parent, item?.agent, item?.sourceAgent, question?.agent];
+  return names.some((name) => typeof name === "string" && agents.includes(name));
+}
+
+/**
+ * Render an event as a heading line with the agent names, followed by any longer text indented
+ */
+function describe(record: TranscriptRecord): string {
+  const name = (agent: string) => chalk.bold(agent);
+  const heading = (text: string, body?: string) => body ? `${text}\n${indent(body)}` : text;
+  const { event, data } = record;
+
+  switch (event) {
+    case "prompt:enqueued":
+      return chalk.gray(`queued for ${data.item.agent}${data.item.sourceAgent ? ` from ${data.item.sourceAgent}` : ""}`);
+    case "prompt:started":
+      return `${chalk.cyan("▶")} ${name(data.item.agent)} started a prompt (request ${data.item.trace.requestId})`;
+    case "prompt:retrying":
+      return chalk.yellow(`${data.item.agent} failed (${data.error}), retry ${data.retry} in ${(data.delay / 1000).toFixed(1)}s`);
+    case "model:fallback":
+      return chalk.yellow(`${data.item.agent} switched from ${data.from} to ${data.to}, ${data.from} is unavailable (${data.error})`);
+    case "prompt:finished":
+      if (data.cancelled) {
+        return chalk.yellow(`■ ${data.item.agent} was cancelled`);
+      }
+      return data.error ? chalk.red(`✖ ${data.item.agent} failed: ${data.error}`) : `${chalk.green("■")} ${name(data.item.agent)} finished`;
+    case "model:request":
+      return heading(`${name(data.agent)} → ${data.model}`, text(data.prompt));
+    case "model:response":
+      return heading(
+        `${name(data.agent)} ← ${data.model}`,
+        text([data.response, ...(data.toolCalls ?? []).map((call) => `${call.name} ${JSON.stringify(call.input)}`)].filter((part) => part !== "").join("\n")),
+      );
+    case "model:usage":
+      return chalk.gray(
+        `${data.agent} used ${data.usage.inputTokens} tokens in, ${data.usage.outputTokens} tokens out, $${data.cost.toFixed(4)}`,
+      );
+    case "context:compacted":
+      return chalk.gray(`${data.agent}'s conversation was compacted from about ${data.result.before} to ${data.result.after} tokens`);
+    case "agent:response": {
+      const calls = [
+        ...(data.message.function_calls ?? []).map((call) => `TOOL ${call.tool}.${call.function}(${call.args.join(", ")})`),
+        ...(data.message.agent_calls ?? []).map((call) => `AGENT ${call.name}: ${call.message}`),
+        ...(data.message.user_calls ?? []).map((call) => `USER ${call.question}`),
+        ...(data.message.done ? ["DONE"] : []),
+      ];
+      return heading(`${name(data.agent)} parsed ${calls.length} call${calls.length === 1 ? "" : "s"}`, calls.join("\n"));
+    }
+    case "tool:approval":
+      return data.approved
+        ? chalk.gray(`${data.agent} may call ${data.call.tool}.${data.call.function} (${data.action})`)
+        : chalk.yellow(`${data.agent} may not call ${data.call.tool}.${data.call.function}: ${data.reason}`);
+    case "tool:started":
+      return `${name(data.agent)} calls ${data.call.tool}.${data.call.function}(${data.call.args.join(", ")})`;
+    case "tool:finished": {
+      const status = data.result.success ? chalk.green("ok") : chalk.red("failed");
+      return heading(`${name(data.agent)} ${data.call.tool}.${data.call.function} ${status}`, text(data.result.content));
+    }
+    case "agent:delegation":
+      return heading(`${name(data.from)} ${data.reply ? "replies to" : "asks"} ${name(data.to)} (${data.correlationId})`, text(data.message));
+    case "agent:spawned":
+      return `${name(data.parent)} spawned ${name(data.agent)}`;
+    case "agent:retired":
+      return `${data.parent ? `${name(data.parent)} retired ` : "retired "}${name(data.agent)}`;
+    case "user:question":
+      return heading(`${name(data.question.agent)} asks the user`, data.question.question);
+    case "user:answer":
+      return heading(`The user answers ${name(data.question.agent)}`, data.answer);
+    case "task:done":
+      return `${chalk.green("✔")} ${name(data.agent)} completed its task`;
+    case "error":
+      return chalk.red(`Error: ${data.message}`);
+    case "notice":
+      return chalk.gray(data.message);
+    default:
+      return heading(String(event), JSON.stringify(data, null, 2));
+  }
+}
+
+function text(value: unknown): string {
+  const content = typeof value === "string" ? value : JSON.stringify(value, null, 2);
+  return content.length > MAX_TEXT ? `${content.substring(0, MAX_TEXT)}\n... ${content.length - MAX_TEXT} more characters` : content;
+}
+
+function indent(body: string): string {
+  return body.split("\n").map((line) => chalk.gray("    │ ") + line).join("\n");
+}
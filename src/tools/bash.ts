@@ -1,4 +1,4 @@
-import { FunctionMap, Tool, ToolFunctionSpec } from "./types.ts";
+import { FunctionMap, Tool, type ToolContext, ToolFunctionSpec } from "./types.ts";
 import { infoPrefix } from "./../lib/cli.ts";
 
 /**
@@ -6,9 +6,9 @@ import { infoPrefix } from "./../lib/cli.ts";
  */
 async function execCommand(
   command: string,
-  options: { timeout?: number } = {},
+  options: { timeout?: number; signal?: AbortSignal } = {},
 ): Promise<{ stdout: string; stderr: string }> {
-  const { timeout = 50000 } = options;
+  const { timeout = 50000, signal } = options;
 
   // Create a properly managed timeout promise with cleanup
   let timeoutId: number | undefined;
@@ -19,20 +19,31 @@ async function execCommand(
   try {
     // Create and run the command in a bash shell
     // This enables shell features like pipes, environment variables, and tilde expansion
+    // The shell is detached into a process group of its own, so that it can be killed with all the processes it started
     const process = new Deno.Command("bash", {
       args: ["-c", command],
       stdout: "piped",
       stderr: "piped",
-    });
+      detached: true,
+    }).spawn();
+
+    // Kill the shell and the processes it started when the work is cancelled,
+    // otherwise they keep the output pipes open
+    const killProcess = () => killProcessTree(process);
+    signal?.addEventListener("abort", killProcess, { once: true });
 
     const executePromise = process.output();
-    const result = await Promise.race([executePromise, timeoutPromise]);
+    const result = await Promise.race([executePromise, timeoutPromise]).finally(() => signal?.removeEventListener("abort", killProcess));
 
     // Clear the timeout to prevent memory leaks and allow program termination
     if (timeoutId !== undefined) {
       clearTimeout(timeoutId);
     }
 
+    if (signal?.aborted) {
+      throw new Error("Command cancelled");
+    }
+
     const decoder = new TextDecoder();
     const stdout = decoder.decode(result.stdout);
     const stderr = decoder.decode(result.stderr);
@@ -52,6 +63,17 @@ async function execCommand(
   }
 }
 
+/**
+ * Terminates a bash process along with the commands it is running, by killing its process group
+ */
+function killProcessTree(process: Deno.ChildProcess): void {
+  try {
+    Deno.kill(-process.pid, "SIGTERM");
+  } catch (_e) {
+    // The processes have already exited
+  }
+}
+
 class Bash extends Tool {
   name = "bash executor tool";
   identifier = "bash-executor-tool";
@@ -72,11 +94,12 @@ class Bash extends Tool {
         },
       ],
       response: "The output of executed command",
+      risk: "high",
     },
   ];
 
   functionMap: FunctionMap = {
-    execute: async (...args: unknown[]): Promise<string> => {
+    execute: async (args: unknown[], context: ToolContext): Promise<string> => {
       // Validate and convert the arguments
       if (args.length === 0 || typeof args[0] !== "string") {
         return "Error: Command must be a string";
@@ -84,15 +107,15 @@ class Bash extends Tool {
       const command = args[0] as string;
 
       // Call the actual implementation
-      return await this.execute(command);
+      return await this.execute(command, context.signal);
     },
   };
 
-  async execute(command: string): Promise<string> {
+  async execute(command: string, signal?: AbortSignal): Promise<string> {
     try {
       // Execute command and wait for completion
       infoPrefix("Tool:bash", command);
-      const { stdout, stderr } = await execCommand(command, { timeout: 50000 });
+      const { stdout, stderr } = await execCommand(command, { timeout: 50000, signal });
 
       // If there's stderr output but the command didn't fail, you might want to include it
       if (stderr) {
@@ -0,0 +1,240 @@
+import { FunctionMap, Tool, ToolContext, ToolFunctionSpec } from "./types.ts";
+import { infoPrefix } from "./../lib/cli.ts";
+import { type BoardEntry } from "../agent/blackboard.ts";
+
+class BoardTool extends Tool {
+  name = "blackboard tool";
+  identifier = "board";
+  abilities = [
+    "You can store plans, decisions and documents on a blackboard that every agent can read",
+    "You can read what other agents stored on the blackboard",
+    "You can be told when other agents change entries on the blackboard",
+  ];
+  instructions = [
+    "Store an entry using put function, pass the version you last read to avoid overwriting someone else's change",
+    "Read an entry using get function",
+    "List entries using list function",
+    "Add to an entry, such as a log or a list of findings, using append function",
+    "Be told about changes to entries using watch function, stop with unwatch function",
+    "Use keys like plan/flight-sim or notes/Typer to group entries",
+  ];
+
+  functions: ToolFunctionSpec[] = [
+    {
+      name: "put",
+      purpose: "Create or replace an entry on the blackboard",
+      arguments: [
+        {
+          name: "key",
+          description: "Key of the entry",
+          dataType: "string",
+        },
+        {
+          name: "value",
+          description: "Content of the entry",
+          dataType: "string",
+        },
+        {
+          name: "expectedVersion",
+          description: "Optional version you last read, 0 for a new entry - the put fails when the entry changed since",
+          dataType: "number",
+          optional: true,
+        },
+      ],
+      response: "The new version of the entry or error message",
+      risk: "low",
+    },
+    {
+      name: "get",
+      purpose: "Read an entry from the blackboard",
+      arguments: [
+        {
+          name: "key",
+          description: "Key of the entry",
+          dataType: "string",
+        },
+      ],
+      response: "The entry with its version and author or error message",
+      risk: "low",
+    },
+    {
+      name: "list",
+      purpose: "List the entries on the blackboard",
+      arguments: [
+        {
+          name: "prefix",
+          description: "Optional prefix of the keys to list",
+          dataType: "string",
+          optional: true,
+        },
+      ],
+      response: "The keys with their versions and authors",
+      risk: "low",
+    },
+    {
+      name: "append",
+      purpose: "Add text to the end of an entry on a new line, creating the entry if needed",
+      arguments: [
+        {
+          name: "key",
+          description: "Key of the entry",
+          dataType: "string",
+        },
+        {
+          name: "text",
+          description: "Text to add",
+          dataType: "string",
+        },
+      ],
+      response: "The new version of the entry or error message",
+      risk: "low",
+    },
+    {
+      name: "watch",
+      purpose: "Be sent a message whenever another agent changes an entry whose key starts with the prefix",
+      arguments: [
+        {
+          name: "prefix",
+          description: "Prefix of the keys to watch, an empty string for all keys",
+          dataType: "string",
+        },
+      ],
+      response: "Success message or error message",
+      risk: "low",
+    },
+    {
+      name: "unwatch",
+      purpose: "Stop watching a prefix, or every prefix when it is empty",
+      arguments: [
+        {
+          name: "prefix",
+          description: "The prefix that was watched",
+          dataType: "string",
+        },
+      ],
+      response: "Success message or error message",
+      risk: "low",
+    },
+  ];
+
+  functionMap: FunctionMap = {
+    put: (args: unknown[], context: ToolContext): string => {
+      if (args.length < 2 || typeof args[0] !== "string" || typeof args[1] !== "string") {
+        return "Error: Key and value must be strings";
+      }
+      if (args.length > 2 && args[2] !== undefined && typeof args[2] !== "number") {
+        return "Error: Expected version must be a number";
+      }
+      return this.put(args[0], args[1], args[2] as number | undefined, context);
+    },
+
+    get: (args: unknown[], context: ToolContext): string => {
+      if (args.length === 0 || typeof args[0] !== "string") {
+        return "Error: Key must be a string";
+      }
+      return this.get(args[0], context);
+    },
+
+    list: (args: unknown[], context: ToolContext): string => {
+      if (args.length > 0 && typeof args[0] !== "string") {
+        return "Error: Prefix must be a string";
+      }
+      return this.list((args[0] as string | undefined) ?? "", context);
+    },
+
+    append: (args: unknown[], context: ToolContext): string => {
+      if (args.length < 2 || typeof args[0] !== "string" || typeof args[1] !== "string") {
+        return "Error: Key and text must be strings";
+      }
+      return this.append(args[0], args[1], context);
+    },
+
+    watch: (args: unknown[], context: ToolContext): string => {
+      if (args.length === 0 || typeof args[0] !== "string") {
+        return "Error: Prefix must be a string";
+      }
+      return this.watch(args[0], context);
+    },
+
+    unwatch: (args: unknown[], context: ToolContext): string => {
+      if (args.length === 0 || typeof args[0] !== "string") {
+        return "Error: Prefix must be a string";
+      }
+      return this.unwatch(args[0], context);
+    },
+  };
+
+  put(key: string, value: string, expectedVersion: number | undefined, context: ToolContext): string {
+    if (!context.board || !context.agent) {
+      return "Error: The blackboard is only available to agents";
+    }
+
+    try {
+      const entry = context.board.put(key, value, context.agent.name, expectedVersion, context.trace);
+      infoPrefix("Tool:board", `${context.agent.name} put ${key} (version ${entry.version})`);
+      return `Stored "${key}" as version ${entry.version}`;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      return `Error storing entry: ${errorMessage}. Get the entry again and merge your change.`;
+    }
+  }
+
+  get(key: string, context: ToolContext): string {
+    if (!context.board) {
+      return "Error: The blackboard is only available to agents";
+    }
+
+    const entry = context.board.get(key);
+    if (!entry) {
+      return `Error: There is no entry "${key}" on the blackboard`;
+    }
+    return `${describeEntry(entry)}\n\n${entry.value}`;
+  }
+
+  list(prefix: string, context: ToolContext): string {
+    if (!context.board) {
+      return "Error: The blackboard is only available to agents";
+    }
+
+    const entries = context.board.list(prefix);
+    if (entries.length === 0) {
+      return prefix ? `There are no entries starting with "${prefix}" on the blackboard` : "The blackboard is empty";
+    }
+    return entries.map(describeEntry).join("\n");
+  }
+
+  append(key: string, text: string, context: ToolContext): string {
+    if (!context.board || !context.agent) {
+      return "Error: The blackboard is only available to agents";
+    }
+
+    const entry = context.board.append(key, text, context.agent.name, context.trace);
+    infoPrefix("Tool:board", `${context.agent.name} appended to ${key} (version ${entry.version})`);
+    return `Appended to "${key}", now at version ${entry.version}`;
+  }
+
+  watch(prefix: string, context: ToolContext): string {
+    if (!context.board || !context.agent) {
+      return "Error: The blackboard is only available to agents";
+    }
+
+    context.board.watch(context.agent.name, prefix);
+    return prefix ? `Watching entries starting with "${prefix}"` : "Watching all entries";
+  }
+
+  unwatch(prefix: string, context: ToolContext): string {
+    if (!context.board || !context.agent) {
+      return "Error: The blackboard is only available to agents";
+    }
+
+    // An empty prefix watched every entry, so it stops every watch
+    context.board.unwatch(context.agent.name, prefix || undefined);
+    return prefix ? `Stopped watching entries starting with "${prefix}"` : "Stopped watching all entries";
+  }
+}
+
+function describeEntry(entry: BoardEntry): string {
+  return `${entry.key} (version ${entry.version} by ${entry.author} at ${entry.updatedAt.toISOString()})`;
+}
+
+export const board = new BoardTool();
@@ -1,4 +1,4 @@
-import { FunctionMap, Tool, ToolFunctionSpec } from "./types.ts";
+import { FunctionMap, Tool, type ToolContext, ToolFunctionSpec } from "./types.ts";
 import { infoPrefix } from "./../lib/cli.ts";
 
 /**
@@ -6,9 +6,9 @@ import { infoPrefix } from "./../lib/cli.ts";
  */
 async function execCommand(
   command: string,
-  options: { timeout?: number } = {},
+  options: { timeout?: number; signal?: AbortSignal } = {},
 ): Promise<{ stdout: string; stderr: string }> {
-  const { timeout = 50000 } = options;
+  const { timeout = 50000, signal } = options;
 
   // Split the command string into command and arguments
   const parts = command.trim().split(/\s+/);
@@ -27,6 +27,7 @@ async function execCommand(
       args: args,
       stdout: "piped",
       stderr: "piped",
+      signal, // Kills the process when the work is cancelled
     });
 
     const executePromise = process.output();
@@ -37,6 +38,10 @@ async function execCommand(
       clearTimeout(timeoutId);
     }
 
+    if (signal?.aborted) {
+      throw new Error("Command cancelled");
+    }
+
     const decoder = new TextDecoder();
     const stdout = decoder.decode(result.stdout);
     const stderr = decoder.decode(result.stderr);
@@ -77,11 +82,12 @@ class Command extends Tool {
         },
       ],
       response: "The output of executed command",
+      risk: "high",
     },
   ];
 
   functionMap: FunctionMap = {
-    execute: async (...args: unknown[]): Promise<string> => {
+    execute: async (args: unknown[], context: ToolContext): Promise<string> => {
       // Validate and convert arguments
       if (args.length === 0 || typeof args[0] !== "string") {
         return "Error: Command must be a string";
@@ -89,15 +95,15 @@ class Command extends Tool {
       const command = args[0] as string;
 
       // Call the actual implementation
-      return await this.execute(command);
+      return await this.execute(command, context.signal);
     },
   };
 
-  async execute(command: string): Promise<string> {
+  async execute(command: string, signal?: AbortSignal): Promise<string> {
     try {
       // Execute command and wait for completion
       infoPrefix("Tool:command", command);
-      const { stdout, stderr } = await execCommand(command, { timeout: 50000 });
+      const { stdout, stderr } = await execCommand(command, { timeout: 50000, signal });
 
       // If there's stderr output but the command didn't fail, you might want to include it
       if (stderr) {
@@ -33,6 +33,7 @@ class FileSystemTool extends Tool {
         },
       ],
       response: "File contents as a string or error message",
+      risk: "low",
     },
     {
       name: "write",
@@ -50,6 +51,7 @@ class FileSystemTool extends Tool {
         },
       ],
       response: "Success message or error message",
+      risk: "medium",
     },
     {
       name: "delete",
@@ -62,6 +64,7 @@ class FileSystemTool extends Tool {
         },
       ],
       response: "Success message or error message",
+      risk: "high",
     },
     {
       name: "createDirectory",
@@ -74,6 +77,7 @@ class FileSystemTool extends Tool {
         },
       ],
       response: "Success message or error message",
+      risk: "low",
     },
     {
       name: "deleteDirectory",
@@ -91,6 +95,7 @@ class FileSystemTool extends Tool {
         },
       ],
       response: "Success message or error message",
+      risk: "high",
     },
     {
       name: "listFiles",
@@ -103,11 +108,12 @@ class FileSystemTool extends Tool {
         },
       ],
       response: "Array of file names or error message",
+      risk: "low",
     },
   ];
 
   functionMap: FunctionMap = {
-    read: async (...args: unknown[]): Promise<string> => {
+    read: async (args: unknown[]): Promise<string> => {
       if (args.length === 0 || typeof args[0] !== "string") {
         return "Error: File path must be a string";
       }
@@ -115,7 +121,7 @@ class FileSystemTool extends Tool {
       return await this.read(filePath);
     },
 
-    write: async (...args: unknown[]): Promise<string> => {
+    write: async (args: unknown[]): Promise<string> => {
       if (args.length < 2 || typeof args[0] !== "string" || typeof args[1] !== "string") {
         return "Error: File path and content must be strings";
       }
@@ -124,7 +130,7 @@ class FileSystemTool extends Tool {
       return await this.write(filePath, content);
     },
 
-    delete: async (...args: unknown[]): Promise<string> => {
+    delete: async (args: unknown[]): Promise<string> => {
       if (args.length === 0 || typeof args[0] !== "string") {
         return "Error: File path must be a string";
       }
@@ -132,7 +138,7 @@ class FileSystemTool extends Tool {
       return await this.delete(filePath);
     },
 
-    createDirectory: async (...args: unknown[]): Promise<string> => {
+    createDirectory: async (args: unknown[]): Promise<string> => {
       if (args.length === 0 || typeof args[0] !== "string") {
         return "Error: Directory path must be a string";
       }
@@ -140,7 +146,7 @@ class FileSystemTool extends Tool {
       return await this.createDirectory(dirPath);
     },
 
-    deleteDirectory: async (...args: unknown[]): Promise<string> => {
+    deleteDirectory: async (args: unknown[]): Promise<string> => {
       if (args.length === 0 || typeof args[0] !== "string") {
         return "Error: Directory path must be a string";
       }
@@ -149,7 +155,7 @@ class FileSystemTool extends Tool {
       return await this.deleteDirectory(dirPath, recursive);
     },
 
-    listFiles: async (...args: unknown[]): Promise<string> => {
+    listFiles: async (args: unknown[]): Promise<string> => {
       if (args.length === 0 || typeof args[0] !== "string") {
         return "Error: Directory path must be a string";
       }
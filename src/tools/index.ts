@@ -1,14 +1,22 @@
 import { bash } from "./bash.ts";
+import { board } from "./board.ts";
 import { command } from "./command.ts";
 import { filesystem } from "./filesystem.ts";
+import { memory } from "./memory.ts";
+import { tasks } from "./tasks.ts";
+import { team } from "./team.ts";
 import { web } from "./web.ts";
 import { Tool } from "./types.ts";
 
-export { Tool, type ToolFunctionArg, type ToolFunctionSpec } from "./types.ts";
+export { type RiskLevel, Tool, type ToolContext, type ToolFunctionArg, type ToolFunctionSpec } from "./types.ts";
 
 export const tools: Tool[] = [
   bash,
+  board,
   command,
   filesystem,
+  memory,
+  tasks,
+  team,
   web,
 ];
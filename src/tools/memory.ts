@@ -0,0 +1,121 @@
+import { FunctionMap, Tool, ToolContext, ToolFunctionSpec } from "./types.ts";
+import { infoPrefix } from "./../lib/cli.ts";
+
+// The number of memories returned by recall
+const RECALL_LIMIT = 10;
+
+class MemoryTool extends Tool {
+  name = "memory tool";
+  identifier = "memory";
+  abilities = [
+    "You can remember notes across sessions, such as project conventions, decisions and lessons learned",
+    "You can search your memories",
+    "You can forget memories that are wrong or out of date",
+  ];
+  instructions = [
+    "Store a note using remember function, one fact per note",
+    "Search your memories using recall function - the most relevant ones are also shown in your system prompt",
+    "Forget a memory by its ID using forget function",
+  ];
+
+  functions: ToolFunctionSpec[] = [
+    {
+      name: "remember",
+      purpose: "Store a note in your long-term memory",
+      arguments: [
+        {
+          name: "text",
+          description: "The note to remember",
+          dataType: "string",
+        },
+      ],
+      response: "The ID of the memory or error message",
+      risk: "low",
+    },
+    {
+      name: "recall",
+      purpose: "Search your long-term memory",
+      arguments: [
+        {
+          name: "query",
+          description: "Words to search for",
+          dataType: "string",
+        },
+      ],
+      response: "The most relevant memories with their IDs",
+      risk: "low",
+    },
+    {
+      name: "forget",
+      purpose: "Remove a note from your long-term memory",
+      arguments: [
+        {
+          name: "id",
+          description: "ID of the memory to forget",
+          dataType: "number",
+        },
+      ],
+      response: "Success message or error message",
+      risk: "low",
+    },
+  ];
+
+  functionMap: FunctionMap = {
+    remember: (args: unknown[], context: ToolContext): string => {
+      if (args.length === 0 || typeof args[0] !== "string" || args[0].trim() === "") {
+        return "Error: Text must be a non-empty string";
+      }
+      return this.remember(args[0].trim(), context);
+    },
+
+    recall: (args: unknown[], context: ToolContext): string => {
+      if (args.length === 0 || typeof args[0] !== "string") {
+        return "Error: Query must be a string";
+      }
+      return this.recall(args[0], context);
+    },
+
+    forget: (args: unknown[], context: ToolContext): string => {
+      if (args.length === 0 || typeof args[0] !== "number") {
+        return "Error: ID must be a number";
+      }
+      return this.forget(args[0], context);
+    },
+  };
+
+  remember(text: string, context: ToolContext): string {
+    if (!context.agent) {
+      return "Error: Only agents have a memory";
+    }
+
+    const memory = context.agent.memory.add(text);
+    infoPrefix("Tool:memory", `${context.agent.name} remembered: ${text}`);
+    return `Remembered as memory ${memory.id}`;
+  }
+
+  recall(query: string, context: ToolContext): string {
+    if (!context.agent) {
+      return "Error: Only agents have a memory";
+    }
+
+    const memories = context.agent.memory.search(query, RECALL_LIMIT);
+    if (memories.length === 0) {
+      return "No memories found";
+    }
+    return memories.map((memory) => `[${memory.id}] ${memory.text}`).join("\n");
+  }
+
+  forget(id: number, context: ToolContext): string {
+    if (!context.agent) {
+      return "Error: Only agents have a memory";
+    }
+
+    if (!context.agent.memory.remove(id)) {
+      return `Error: There is no memory ${id}`;
+    }
+    infoPrefix("Tool:memory", `${context.agent.name} forgot memory ${id}`);
+    return `Forgot memory ${id}`;
+  }
+}
+
+export const memory = new MemoryTool();
@@ -0,0 +1,286 @@
+import { FunctionMap, Tool, ToolContext, ToolFunctionSpec } from "./types.ts";
+import { infoPrefix } from "./../lib/cli.ts";
+import { type Task, TASK_STATUSES, type TaskBoard, type TaskStatus } from "../agent/tasks.ts";
+
+class TasksTool extends Tool {
+  name = "task board tool";
+  identifier = "tasks";
+  abilities = [
+    "You can plan work as tasks with assignees, dependencies and acceptance criteria on a task board that every agent can read",
+    "You can claim the tasks assigned to you, report progress on them and complete them",
+  ];
+  instructions = [
+    "Plan work using create function, one task per piece of work that a single agent can do",
+    "See the tasks using list function and the details of a task using get function",
+    "Start a task using claim function before you work on it",
+    "Report progress or hand a task to another agent using update function",
+    "Finish a task using complete function once its acceptance criteria are met, with a summary of the result",
+  ];
+
+  functions: ToolFunctionSpec[] = [
+    {
+      name: "create",
+      purpose: "Add a task to the task board",
+      arguments: [
+        {
+          name: "title",
+          description: "What has to be done",
+          dataType: "string",
+        },
+        {
+          name: "assignee",
+          description: "Optional name of the agent that should do the task",
+          dataType: "string",
+          optional: true,
+        },
+        {
+          name: "dependencies",
+          description: "Optional IDs of the tasks that have to be done first",
+          dataType: "number[]",
+          optional: true,
+        },
+        {
+          name: "criteria",
+          description: "Optional acceptance criteria, what has to be true for the task to be done",
+          dataType: "string[]",
+          optional: true,
+        },
+      ],
+      response: "The ID of the new task or error message",
+      risk: "low",
+    },
+    {
+      name: "list",
+      purpose: "List the tasks on the task board",
+      arguments: [
+        {
+          name: "status",
+          description: `Optional status of the tasks to list: ${TASK_STATUSES.join(", ")}`,
+          dataType: "string",
+          optional: true,
+        },
+      ],
+      response: "The tasks with their status and assignee",
+      risk: "low",
+    },
+    {
+      name: "get",
+      purpose: "Read a task with its dependencies, acceptance criteria and notes",
+      arguments: [
+        {
+          name: "id",
+          description: "ID of the task",
+          dataType: "number",
+        },
+      ],
+      response: "The task or error message",
+      risk: "low",
+    },
+    {
+      name: "claim",
+      purpose: "Assign a task to yourself and start it",
+      arguments: [
+        {
+          name: "id",
+          description: "ID of the task",
+          dataType: "number",
+        },
+      ],
+      response: "Success message or error message",
+      risk: "low",
+    },
+    {
+      name: "update",
+      purpose: "Change the status or assignee of a task and add a progress note",
+      arguments: [
+        {
+          name: "id",
+          description: "ID of the task",
+          dataType: "number",
+        },
+        {
+          name: "note",
+          description: "Progress note",
+          dataType: "string",
+        },
+        {
+          name: "status",
+          description: `Optional new status: ${TASK_STATUSES.join(", ")}`,
+          dataType: "string",
+          optional: true,
+        },
+        {
+          name: "assignee",
+          description: "Optional name of the agent that should do the task from now on",
+          dataType: "string",
+          optional: true,
+        },
+      ],
+      response: "Success message or error message",
+      risk: "low",
+    },
+    {
+      name: "complete",
+      purpose: "Mark a task as done",
+      arguments: [
+        {
+          name: "id",
+          description: "ID of the task",
+          dataType: "number",
+        },
+        {
+          name: "summary",
+          description: "Summary of the result and how the acceptance criteria are met",
+          dataType: "string",
+        },
+      ],
+      response: "Success message or error message",
+      risk: "low",
+    },
+  ];
+
+  functionMap: FunctionMap = {
+    create: (args: unknown[], context: ToolContext): string => {
+      if (args.length === 0 || typeof args[0] !== "string") {
+        return "Error: Title must be a string";
+      }
+      if (args.length > 1 && args[1] !== undefined && typeof args[1] !== "string") {
+        return "Error: Assignee must be a string";
+      }
+      if (args.length > 2 && args[2] !== undefined && !(Array.isArray(args[2]) && args[2].every(Number.isInteger))) {
+        return "Error: Dependencies must be an array of task IDs";
+      }
+      if (args.length > 3 && args[3] !== undefined && !Array.isArray(args[3])) {
+        return "Error: Criteria must be an array of strings";
+      }
+      return this.create(args[0], args[1] as string | undefined, args[2] as number[] | undefined, (args[3] as unknown[] | undefined)?.map(String), context);
+    },
+
+    list: (args: unknown[], context: ToolContext): string => {
+      if (args.length > 0 && args[0] !== undefined && !isStatus(args[0])) {
+        return `Error: Status must be one of ${TASK_STATUSES.join(", ")}`;
+      }
+      return this.list(args[0] as TaskStatus | undefined, context);
+    },
+
+    get: (args: unknown[], context: ToolContext): string => {
+      if (args.length === 0 || typeof args[0] !== "number") {
+        return "Error: ID must be a number";
+      }
+      return this.get(args[0], context);
+    },
+
+    claim: (args: unknown[], context: ToolContext): string => {
+      if (args.length === 0 || typeof args[0] !== "number") {
+        return "Error: ID must be a number";
+      }
+      return this.claim(args[0], context);
+    },
+
+    update: (args: unknown[], context: ToolContext): string => {
+      if (args.length < 2 || typeof args[0] !== "number" || typeof args[1] !== "string") {
+        return "Error: ID must be a number and note must be a string";
+      }
+      if (args.length > 2 && args[2] !== undefined && !isStatus(args[2])) {
+        return `Error: Status must be one of ${TASK_STATUSES.join(", ")}`;
+      }
+      if (args.length > 3 && args[3] !== undefined && typeof args[3] !== "string") {
+        return "Error: Assignee must be a string";
+      }
+      return this.update(args[0], args[1], args[2] as TaskStatus | undefined, args[3] as string | undefined, context);
+    },
+
+    complete: (args: unknown[], context: ToolContext): string => {
+      if (args.length < 2 || typeof args[0] !== "number" || typeof args[1] !== "string") {
+        return "Error: ID must be a number and summary must be a string";
+      }
+      return this.complete(args[0], args[1], context);
+    },
+  };
+
+  create(title: string, assignee: string | undefined, dependencies: number[] | undefined, criteria: string[] | undefined, context: ToolContext): string {
+    return this.change(context, (tasks, agent) => {
+      const task = tasks.create({ title, assignee, dependencies, criteria }, agent, context.trace);
+      infoPrefix("Tool:tasks", `${agent} created task ${task.id}: ${title}`);
+      return `Created task ${task.id}`;
+    });
+  }
+
+  list(status: TaskStatus | undefined, context: ToolContext): string {
+    if (!context.tasks) {
+      return "Error: The task board is only available to agents";
+    }
+
+    const tasks = context.tasks.list(status);
+    if (tasks.length === 0) {
+      return status ? `There are no tasks with status ${status}` : "The task board is empty";
+    }
+    return tasks.map((task) => describeTask(task, context.tasks!)).join("\n");
+  }
+
+  get(id: number, context: ToolContext): string {
+    if (!context.tasks) {
+      return "Error: The task board is only available to agents";
+    }
+
+    const task = context.tasks.get(id);
+    if (!task) {
+      return `Error: There is no task ${id}`;
+    }
+    return [
+      describeTask(task, context.tasks),
+      ...(task.dependencies.length > 0 ? [`Depends on: ${task.dependencies.join(", ")}`] : []),
+      ...(task.criteria.length > 0 ? ["Acceptance criteria:", ...task.criteria.map((criterion) => `- ${criterion}`)] : []),
+      ...(task.notes.length > 0 ? ["Notes:", ...task.notes.map((note) => `- ${note}`)] : []),
+    ].join("\n");
+  }
+
+  claim(id: number, context: ToolContext): string {
+    return this.change(context, (tasks, agent) => {
+      tasks.claim(id, agent, context.trace);
+      infoPrefix("Tool:tasks", `${agent} claimed task ${id}`);
+      return `You are now working on task ${id}`;
+    });
+  }
+
+  update(id: number, note: string, status: TaskStatus | undefined, assignee: string | undefined, context: ToolContext): string {
+    return this.change(context, (tasks, agent) => {
+      const task = tasks.update(id, { note, status, assignee }, agent, context.trace);
+      infoPrefix("Tool:tasks", `${agent} updated task ${id} (${task.status})`);
+      return `Updated task ${id}, it is ${task.status}${task.assignee ? ` and assigned to ${task.assignee}` : ""}`;
+    });
+  }
+
+  complete(id: number, summary: string, context: ToolContext): string {
+    return this.change(context, (tasks, agent) => {
+      tasks.complete(id, summary, agent, context.trace);
+      infoPrefix("Tool:tasks", `${agent} completed task ${id}`);
+      return `Completed task ${id}`;
+    });
+  }
+
+  private change(context: ToolContext, change: (tasks: TaskBoard, agent: string) => string): string {
+    if (!context.tasks || !context.agent) {
+      return "Error: The task board is only available to agents";
+    }
+
+    try {
+      return change(context.tasks, context.agent.name);
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      return `Error: ${errorMessage}`;
+    }
+  }
+}
+
+function isStatus(value: unknown): value is TaskStatus {
+  return TASK_STATUSES.includes(value as TaskStatus);
+}
+
+function describeTask(task: Task, tasks: TaskBoard): string {
+  const blockers = task.status === "done" ? [] : tasks.blockers(task);
+  const waiting = blockers.length > 0 ? `, waiting for ${blockers.join(", ")}` : "";
+  return `${task.id}. ${task.title} [${task.status}${waiting}] ${task.assignee ?? "unassigned"}`;
+}
+
+export const tasks = new TasksTool();
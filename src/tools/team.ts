@@ -0,0 +1,121 @@
+import { FunctionMap, Tool, ToolContext, ToolFunctionSpec } from "./types.ts";
+import { infoPrefix } from "./../lib/cli.ts";
+
+// Agent names have to survive the AGENT:<id>:<name>(...) syntax
+const AGENT_NAME = /^[A-Za-z][A-Za-z0-9_-]*$/;
+
+class TeamTool extends Tool {
+  name = "team tool";
+  identifier = "team";
+  abilities = [
+    "You can spawn a new agent to work on part of a task, for example to run several reviews in parallel",
+    "You can retire an agent you spawned once it has replied",
+  ];
+  instructions = [
+    "Spawn an agent using spawn function, then send it its task with the AGENT syntax",
+    "Retire an agent you no longer need using retire function",
+  ];
+
+  functions: ToolFunctionSpec[] = [
+    {
+      name: "spawn",
+      purpose: "Create a new agent with the same tools as you, which only you are aware of",
+      arguments: [
+        {
+          name: "name",
+          description: "Unique name of the new agent, letters, digits, - and _ only",
+          dataType: "string",
+        },
+        {
+          name: "bio",
+          description: "Description of the agent's role",
+          dataType: "string",
+        },
+        {
+          name: "skills",
+          description: "The agent's skills",
+          dataType: "string[]",
+        },
+        {
+          name: "model",
+          description: "Optional name of the model to use, your own model when not given",
+          dataType: "string",
+          optional: true,
+        },
+      ],
+      response: "Success message or error message",
+      risk: "medium",
+    },
+    {
+      name: "retire",
+      purpose: "Remove an agent you spawned",
+      arguments: [
+        {
+          name: "name",
+          description: "Name of the agent to retire",
+          dataType: "string",
+        },
+      ],
+      response: "Success message or error message",
+      risk: "low",
+    },
+  ];
+
+  functionMap: FunctionMap = {
+    spawn: (args: unknown[], context: ToolContext): string => {
+      if (args.length < 3 || typeof args[0] !== "string" || typeof args[1] !== "string") {
+        return "Error: Name and bio must be strings";
+      }
+      if (!AGENT_NAME.test(args[0])) {
+        return "Error: Name may only contain letters, digits, - and _, and must start with a letter";
+      }
+      const skills = Array.isArray(args[2]) ? args[2].map(String) : typeof args[2] === "string" ? args[2].split(",").map((skill) => skill.trim()) : undefined;
+      if (!skills) {
+        return "Error: Skills must be an array of strings";
+      }
+      if (args.length > 3 && args[3] !== undefined && typeof args[3] !== "string") {
+        return "Error: Model must be a string";
+      }
+      return this.spawn(args[0], args[1], skills, args[3] as string | undefined, context);
+    },
+
+    retire: (args: unknown[], context: ToolContext): string => {
+      if (args.length === 0 || typeof args[0] !== "string") {
+        return "Error: Name must be a string";
+      }
+      return this.retire(args[0], context);
+    },
+  };
+
+  spawn(name: string, bio: string, skills: string[], modelName: string | undefined, context: ToolContext): string {
+    if (!context.agent || !context.trace) {
+      return "Error: Only agents can spawn agents";
+    }
+
+    try {
+      const agent = context.agent.spawn(name, bio, skills, modelName, context.trace);
+      infoPrefix("Tool:team", `${context.agent.name} spawned ${name}`);
+      return `Spawned agent ${agent.name} using model ${agent.modelName}. Send it its task with AGENT:<unique_id>:${agent.name}("...")`;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      return `Error spawning agent: ${errorMessage}`;
+    }
+  }
+
+  retire(name: string, context: ToolContext): string {
+    if (!context.agent) {
+      return "Error: Only agents can retire agents";
+    }
+
+    try {
+      context.agent.retire(name);
+      infoPrefix("Tool:team", `${context.agent.name} retired ${name}`);
+      return `Retired agent ${name}`;
+    } catch (err: unknown) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      return `Error retiring agent: ${errorMessage}`;
+    }
+  }
+}
+
+export const team = new TeamTool();
@@ -1,14 +1,28 @@
+import { type Agent, type PromptTrace } from "../agent/index.ts";
+import { type Blackboard } from "../agent/blackboard.ts";
+import { type TaskBoard } from "../agent/tasks.ts";
+
 export type ToolFunctionArg = {
   name: string;
   description: string;
   dataType: string;
+  /** Whether the argument may be left out */
+  optional?: boolean;
 };
 
+/**
+ * How much harm a tool function can do: low functions only read, medium ones change things that are easily restored
+ * and high ones can destroy data or run arbitrary commands
+ */
+export type RiskLevel = "low" | "medium" | "high";
+
 export type ToolFunctionSpec = {
   name: string;
   purpose: string;
   arguments: ToolFunctionArg[];
   response: string;
+  /** Treated as medium when not given */
+  risk?: RiskLevel;
 };
 
 export abstract class Tool {
@@ -21,4 +35,20 @@ export abstract class Tool {
   abstract functionMap: FunctionMap;
 }
 
-export type FunctionMap = { [key: string]: (...args: unknown[]) => Promise<string> | string };
+/**
+ * Information about the call that is passed to every tool function alongside its arguments
+ */
+export type ToolContext = {
+  /** Aborted when the user cancels the work in progress */
+  signal?: AbortSignal;
+  /** The agent calling the tool */
+  agent?: Agent;
+  /** The trace of the prompt the agent is handling */
+  trace?: PromptTrace;
+  /** The blackboard shared by the agents of the session */
+  board?: Blackboard;
+  /** The planned tasks of the project */
+  tasks?: TaskBoard;
+};
+
+export type FunctionMap = { [key: string]: (args: unknown[], context: ToolContext) => Promise<string> | string };
@@ -1,4 +1,4 @@
-import { FunctionMap, Tool, ToolFunctionSpec } from "./types.ts";
+import { FunctionMap, Tool, type ToolContext, ToolFunctionSpec } from "./types.ts";
 import { infoPrefix } from "./../lib/cli.ts";
 
 class WebTool extends Tool {
@@ -34,14 +34,17 @@ class WebTool extends Tool {
           name: "headers",
           description: "Optional headers to include with the request as a JSON string",
           dataType: "string",
+          optional: true,
         },
         {
           name: "body",
           description: "Optional body for the request as a JSON string",
           dataType: "string",
+          optional: true,
         },
       ],
       response: "Response from the server or error message",
+      risk: "medium",
     },
     {
       name: "fetchHtml",
@@ -54,6 +57,7 @@ class WebTool extends Tool {
         },
       ],
       response: "HTML content of the web page or error message",
+      risk: "low",
     },
     {
       name: "fetchMarkdown",
@@ -66,11 +70,12 @@ class WebTool extends Tool {
         },
       ],
       response: "Markdown content converted from the web page or error message",
+      risk: "low",
     },
   ];
 
   functionMap: FunctionMap = {
-    restCall: async (...args: unknown[]): Promise<string> => {
+    restCall: async (args: unknown[], context: ToolContext): Promise<string> => {
       if (args.length < 2 || typeof args[0] !== "string" || typeof args[1] !== "string") {
         return "Error: URL and method must be strings";
       }
@@ -79,25 +84,25 @@ class WebTool extends Tool {
       const headers = args.length > 2 && typeof args[2] === "string" ? args[2] : "{}";
       const body = args.length > 3 && typeof args[3] === "string" ? args[3] : "";
 
-      return await this.restCall(url, method, headers, body);
+      return await this.restCall(url, method, headers, body, context.signal);
     },
 
-    fetchHtml: async (...args: unknown[]): Promise<string> => {
+    fetchHtml: async (args: unknown[], context: ToolContext): Promise<string> => {
       if (args.length === 0 || typeof args[0] !== "string") {
         return "Error: URL must be a string";
       }
       const url = args[0] as string;
 
-      return await this.fetchHtml(url);
+      return await this.fetchHtml(url, context.signal);
     },
 
-    fetchMarkdown: async (...args: unknown[]): Promise<string> => {
+    fetchMarkdown: async (args: unknown[], context: ToolContext): Promise<string> => {
       if (args.length === 0 || typeof args[0] !== "string") {
         return "Error: URL must be a string";
       }
       const url = args[0] as string;
 
-      return await this.fetchMarkdown(url);
+      return await this.fetchMarkdown(url, context.signal);
     },
   };
 
@@ -106,6 +111,7 @@ class WebTool extends Tool {
     method: string,
     headers: string = "{}",
     body: string = "",
+    signal?: AbortSignal,
   ): Promise<string> {
     try {
       infoPrefix("Tool:web", `Making ${method} request to: ${url}`);
@@ -123,6 +129,7 @@ class WebTool extends Tool {
       const options: RequestInit = {
         method: method.toUpperCase(),
         headers: parsedHeaders,
+        signal,
       };
 
       // Add body for non-GET requests if provided
@@ -154,11 +161,11 @@ class WebTool extends Tool {
     }
   }
 
-  async fetchHtml(url: string): Promise<string> {
+  async fetchHtml(url: string, signal?: AbortSignal): Promise<string> {
     try {
       infoPrefix("Tool:web", `Fetching HTML from: ${url}`);
 
-      const response = await fetch(url);
+      const response = await fetch(url, { signal });
       if (!response.ok) {
         return `Error fetching HTML: ${response.status} ${response.statusText}`;
       }
@@ -172,12 +179,12 @@ class WebTool extends Tool {
     }
   }
 
-  async fetchMarkdown(url: string): Promise<string> {
+  async fetchMarkdown(url: string, signal?: AbortSignal): Promise<string> {
     try {
       infoPrefix("Tool:web", `Fetching and converting to Markdown: ${url}`);
 
       // First fetch the HTML
-      const response = await fetch(url);
+      const response = await fetch(url, { signal });
       if (!response.ok) {
         return `Error fetching page: ${response.status} ${response.statusText}`;
       }